@@ -3,8 +3,75 @@
  * Usage: node --experimental-transform-types scripts/e2e-test.ts [BASE_URL]
  */
 
+import { spawn, type ChildProcess } from "node:child_process";
+import { createHash, createHmac } from "node:crypto";
+import { once } from "node:events";
+import { appendFile, mkdtemp, readFile, rm } from "node:fs/promises";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { sign } from "hono/jwt";
+
 const BASE_URL = process.argv[2] ?? "http://localhost:3000";
 
+// A server with authentication enabled and its credentials, set by
+// run-e2e.ts; the tests that need one are skipped without it
+const AUTH_BASE_URL = process.env.AUTH_BASE_URL ?? "";
+const AUTH_API_KEYS = new Map(
+  (process.env.AUTH_API_KEYS ?? "")
+    .split(",")
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      return [entry.slice(0, separator), entry.slice(separator + 1)];
+    }),
+);
+
+// An api-only and a worker-only server sharing a Redis, set by run-e2e.ts
+// when it has one; the tests of the split roles are skipped without them
+const ROLE_API_URL = process.env.ROLE_API_URL ?? "";
+const ROLE_WORKER_URL = process.env.ROLE_WORKER_URL ?? "";
+
+// Signs the callbacks of both servers, set by run-e2e.ts; the delivery test
+// is skipped without it
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET ?? "";
+
+function apiKeyHeader(clientId: string): Record<string, string> {
+  return { "X-API-Key": AUTH_API_KEYS.get(clientId) ?? "" };
+}
+
+// An HS256 token for `sub`, valid for a minute unless overridden
+function signHs256(payload: Record<string, unknown>): Promise<string> {
+  return sign(
+    { exp: Math.floor(Date.now() / 1000) + 60, ...payload },
+    process.env.AUTH_JWT_HS256_SECRET ?? "",
+    "HS256",
+  );
+}
+
+// Whether a WebSocket to `url` opens (false when the upgrade is refused)
+function openWebSocket(url: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const ws = new WebSocket(url);
+    const timer = setTimeout(() => {
+      ws.close();
+      resolve(false);
+    }, 5000);
+    ws.onopen = () => {
+      clearTimeout(timer);
+      ws.close();
+      resolve(true);
+    };
+    ws.onerror = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+  });
+}
+
 // ANSI Colors
 const colors = {
   red: "\x1b[31m",
@@ -121,6 +188,82 @@ async function testHealth(): Promise<void> {
   }
 }
 
+async function testHealthProbes(): Promise<void> {
+  logSection("Liveness and Readiness Probes");
+
+  const live = await fetch(`${BASE_URL}/health/live`);
+  const liveData = (await live.json()) as { status?: string };
+
+  if (live.status === 200 && liveData.status === "healthy") {
+    logPass("Liveness probe returns 200 healthy");
+  } else {
+    logFail(
+      "Liveness probe returns 200 healthy",
+      '200 {"status":"healthy"}',
+      `${String(live.status)} ${JSON.stringify(liveData)}`,
+    );
+  }
+
+  const ready = await fetch(`${BASE_URL}/health/ready`);
+  const readyData = (await ready.json()) as {
+    status?: string;
+    checks?: Record<string, string>;
+    latencyMs?: { storage?: number };
+    shuttingDown?: boolean;
+  };
+
+  // Each configured dependency reports a status and how long its check took
+  if (
+    (ready.status === 200) === (readyData.status === "healthy") &&
+    readyData.checks?.redis !== undefined &&
+    readyData.checks.worker !== undefined &&
+    typeof readyData.latencyMs?.storage === "number" &&
+    readyData.shuttingDown === false
+  ) {
+    logPass("Readiness probe reports each dependency with latency");
+  } else {
+    logFail(
+      "Readiness probe reports each dependency with latency",
+      "checks for storage, redis, queue and worker with latencyMs",
+      `${String(ready.status)} ${JSON.stringify(readyData)}`,
+    );
+  }
+}
+
+async function testMetrics(): Promise<void> {
+  logSection("Metrics Endpoint");
+
+  const response = await fetch(`${BASE_URL}/metrics`);
+  const body = await response.text();
+
+  if (
+    response.status === 200 &&
+    response.headers.get("content-type")?.startsWith("text/plain")
+  ) {
+    logPass("Metrics served as Prometheus text");
+  } else {
+    logFail(
+      "Metrics served as Prometheus text",
+      "200 text/plain",
+      `${String(response.status)} ${response.headers.get("content-type") ?? ""}`,
+    );
+  }
+
+  // Requests are labelled with the route pattern, not the raw path
+  if (
+    body.includes('http_requests_total{method="GET",route="/health"') &&
+    body.includes("download_queue_jobs{")
+  ) {
+    logPass("Metrics include HTTP and queue series");
+  } else {
+    logFail(
+      "Metrics include HTTP and queue series",
+      "http_requests_total for /health and download_queue_jobs",
+      body.slice(0, 200),
+    );
+  }
+}
+
 async function testSecurityHeaders(): Promise<void> {
   logSection("Security Headers");
 
@@ -278,265 +421,2219 @@ async function testDownloadInitiate(): Promise<void> {
   }
 }
 
-async function testDownloadCheck(): Promise<void> {
-  logSection("Download Check Endpoint");
+async function testIdempotency(): Promise<void> {
+  logSection("Idempotency-Key");
+
+  const idempotencyKey = crypto.randomUUID();
+  const initiate = (fileIds: number[]) =>
+    fetch(`${BASE_URL}/v1/download/initiate`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Idempotency-Key": idempotencyKey,
+      },
+      body: JSON.stringify({ file_ids: fileIds }),
+    });
+
+  const first = (await (await initiate([70000])).json()) as { jobId?: string };
+  const replayResponse = await initiate([70000]);
+  const replay = (await replayResponse.json()) as { jobId?: string };
+
+  if (first.jobId && replay.jobId === first.jobId) {
+    logPass("Repeated Idempotency-Key returns the original jobId");
+  } else {
+    logFail(
+      "Repeated Idempotency-Key returns the original jobId",
+      first.jobId ?? "<uuid>",
+      replay.jobId ?? "undefined",
+    );
+  }
 
-  // Valid request - file exists (70000 was uploaded earlier)
-  const response = await fetch(`${BASE_URL}/v1/download/check`, {
+  if (replayResponse.headers.get("idempotent-replayed") === "true") {
+    logPass("Replayed response has Idempotent-Replayed header");
+  } else {
+    logFail(
+      "Replayed response has Idempotent-Replayed header",
+      "idempotent-replayed: true",
+      replayResponse.headers.get("idempotent-replayed") ?? "not found",
+    );
+  }
+
+  const conflict = await initiate([70007]);
+  if (conflict.status === 422) {
+    logPass("Idempotency-Key reused with a different body returns 422");
+  } else {
+    logFail(
+      "Idempotency-Key reused with a different body returns 422",
+      "422",
+      String(conflict.status),
+    );
+  }
+}
+
+async function testDownloadStatus(): Promise<void> {
+  logSection("Download Status Endpoint");
+
+  const initiateResponse = await fetch(`${BASE_URL}/v1/download/initiate`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ file_id: 70000 }),
+    body: JSON.stringify({ file_ids: [70000, 70001, 70007] }),
   });
+  const { jobId } = (await initiateResponse.json()) as { jobId?: string };
+
+  const response = await fetch(`${BASE_URL}/v1/download/status/${jobId ?? ""}`);
   const data = (await response.json()) as {
-    file_id?: number;
-    available?: boolean;
+    totalFiles?: number;
+    files?: { file_id?: number; status?: string }[];
+    maxAttempts?: number;
+    lastError?: string | null;
   };
 
-  if (data.file_id === 70000) {
-    logPass("Download check returns correct file_id");
+  if (data.totalFiles === 3 && data.files?.length === 3) {
+    logPass("Job status tracks every file_id in the batch");
   } else {
     logFail(
-      "Download check returns correct file_id",
-      '"file_id":70000',
-      String(data.file_id),
+      "Job status tracks every file_id in the batch",
+      '"totalFiles":3 with 3 files',
+      JSON.stringify(data),
     );
   }
 
-  if (typeof data.available === "boolean") {
-    logPass("Download check returns available field");
+  if (data.files?.map((f) => f.file_id).join(",") === "70000,70001,70007") {
+    logPass("Job status preserves file_id order");
   } else {
     logFail(
-      "Download check returns available field",
-      '"available": true/false',
-      String(data.available),
+      "Job status preserves file_id order",
+      "70000,70001,70007",
+      JSON.stringify(data.files),
     );
   }
 
-  // Valid request - file likely doesn't exist
-  const response2 = await fetch(`${BASE_URL}/v1/download/check`, {
+  if (typeof data.maxAttempts === "number" && data.lastError === null) {
+    logPass("Job status reports retry attempts");
+  } else {
+    logFail(
+      "Job status reports retry attempts",
+      '"maxAttempts":<number>,"lastError":null',
+      JSON.stringify(data),
+    );
+  }
+
+  // Bundled job
+  const bundleResponse = await fetch(`${BASE_URL}/v1/download/initiate`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ file_id: 99999 }),
+    body: JSON.stringify({ file_ids: [70000, 70007], bundle: true }),
   });
-  const data2 = (await response2.json()) as { file_id?: number };
+  const bundleJob = (await bundleResponse.json()) as { jobId?: string };
+  const bundleStatus = await fetch(
+    `${BASE_URL}/v1/download/status/${bundleJob.jobId ?? ""}`,
+  );
+  const bundleData = (await bundleStatus.json()) as { bundle?: boolean };
+
+  if (bundleData.bundle === true) {
+    logPass("Job status reports bundle option");
+  } else {
+    logFail(
+      "Job status reports bundle option",
+      '"bundle":true',
+      JSON.stringify(bundleData),
+    );
+  }
 
-  if (data2.file_id === 99999) {
-    logPass("Download check returns correct file_id for non-existent file");
+  // Unknown job
+  const notFound = await fetch(
+    `${BASE_URL}/v1/download/status/${crypto.randomUUID()}`,
+  );
+
+  if (notFound.status === 404) {
+    logPass("Job status returns 404 for unknown job");
   } else {
     logFail(
-      "Download check returns correct file_id for non-existent file",
-      '"file_id":99999',
-      String(data2.file_id),
+      "Job status returns 404 for unknown job",
+      "404",
+      String(notFound.status),
     );
   }
+}
 
-  // Invalid request - file_id too small
-  const invalidResponse1 = await fetch(`${BASE_URL}/v1/download/check`, {
+async function testJobList(): Promise<void> {
+  logSection("Job List Endpoint");
+
+  const fileId = 10000 + Math.floor(Math.random() * 90000000);
+  const initiateResponse = await fetch(`${BASE_URL}/v1/download/initiate`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ file_id: 100 }),
+    body: JSON.stringify({ file_ids: [fileId] }),
   });
+  const { jobId } = (await initiateResponse.json()) as { jobId?: string };
 
-  if (invalidResponse1.status === 400) {
-    logPass("Download check rejects file_id < 10000");
+  const response = await fetch(
+    `${BASE_URL}/v1/download/jobs?file_id=${String(fileId)}`,
+  );
+  const data = (await response.json()) as { jobs?: { jobId?: string }[] };
+
+  if (data.jobs?.length === 1 && data.jobs[0].jobId === jobId) {
+    logPass("Job list filters by file_id");
   } else {
     logFail(
-      "Download check rejects file_id < 10000",
-      "400",
-      String(invalidResponse1.status),
+      "Job list filters by file_id",
+      `[{"jobId":"${jobId ?? ""}"}]`,
+      JSON.stringify(data),
     );
   }
 
-  // Invalid request - file_id too large
-  const invalidResponse2 = await fetch(`${BASE_URL}/v1/download/check`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ file_id: 999999999 }),
-  });
+  // Earlier tests created more jobs than fit on one page
+  const page = await fetch(`${BASE_URL}/v1/download/jobs?limit=1`);
+  const pageData = (await page.json()) as {
+    jobs?: unknown[];
+    nextCursor?: string | null;
+  };
+  const nextPage = await fetch(
+    `${BASE_URL}/v1/download/jobs?limit=1&cursor=${pageData.nextCursor ?? ""}`,
+  );
 
-  if (invalidResponse2.status === 400) {
-    logPass("Download check rejects file_id > 100000000");
+  if (
+    pageData.jobs?.length === 1 &&
+    pageData.nextCursor &&
+    nextPage.status === 200
+  ) {
+    logPass("Job list paginates with nextCursor");
   } else {
     logFail(
-      "Download check rejects file_id > 100000000",
+      "Job list paginates with nextCursor",
+      "1 job and a nextCursor",
+      JSON.stringify(pageData),
+    );
+  }
+
+  const invalidCursor = await fetch(
+    `${BASE_URL}/v1/download/jobs?cursor=not-a-cursor`,
+  );
+  if (invalidCursor.status === 400) {
+    logPass("Job list rejects invalid cursor");
+  } else {
+    logFail(
+      "Job list rejects invalid cursor",
       "400",
-      String(invalidResponse2.status),
+      String(invalidCursor.status),
     );
   }
 }
 
-async function testRequestId(): Promise<void> {
-  logSection("Request ID Tracking");
+async function testUsage(): Promise<void> {
+  logSection("Usage Endpoint");
 
-  // Check that custom request ID is respected
-  const customId = "test-request-id-12345";
-  const response1 = await fetch(`${BASE_URL}/`, {
-    headers: { "X-Request-ID": customId },
-  });
+  const response = await fetch(`${BASE_URL}/v1/usage`);
+  const data = (await response.json()) as {
+    activeJobs?: { used?: number; limit?: number | null };
+    dailyBytes?: { used?: number; limit?: number | null; resetsAt?: string };
+  };
 
-  if (response1.headers.get("x-request-id") === customId) {
-    logPass("Custom X-Request-ID is respected");
+  if (
+    response.status === 200 &&
+    typeof data.activeJobs?.used === "number" &&
+    typeof data.dailyBytes?.used === "number" &&
+    data.dailyBytes.resetsAt &&
+    new Date(data.dailyBytes.resetsAt).getTime() > Date.now()
+  ) {
+    logPass("Usage reports active jobs and daily bytes");
   } else {
     logFail(
-      "Custom X-Request-ID is respected",
-      customId,
-      response1.headers.get("x-request-id") ?? "not found",
+      "Usage reports active jobs and daily bytes",
+      "activeJobs.used, dailyBytes.used and a future resetsAt",
+      JSON.stringify(data),
     );
   }
 
-  // Check that new request ID is generated when not provided
-  const response2 = await fetch(`${BASE_URL}/`);
-  const generatedId = response2.headers.get("x-request-id");
-  const uuidRegex =
-    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-
-  if (generatedId && uuidRegex.test(generatedId)) {
-    logPass("Auto-generated X-Request-ID is valid UUID");
+  // Quotas default to unlimited
+  if (data.activeJobs?.limit === null && data.dailyBytes?.limit === null) {
+    logPass("Usage reports unlimited quotas by default");
   } else {
     logFail(
-      "Auto-generated X-Request-ID is valid UUID",
-      "UUID format",
-      generatedId ?? "not found",
+      "Usage reports unlimited quotas by default",
+      "null limits",
+      JSON.stringify(data),
     );
   }
 }
 
-async function testContentType(): Promise<void> {
-  logSection("Content-Type Validation");
+async function testStatusCaching(): Promise<void> {
+  logSection("Job Status ETag & Long-Polling");
 
-  // POST with invalid JSON should fail
-  const response = await fetch(`${BASE_URL}/v1/download/check`, {
+  const initiateResponse = await fetch(`${BASE_URL}/v1/download/initiate`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: "not valid json",
+    body: JSON.stringify({ file_ids: [70000] }),
   });
+  const { jobId } = (await initiateResponse.json()) as { jobId?: string };
+  const statusUrl = `${BASE_URL}/v1/download/status/${jobId ?? ""}`;
 
-  // 400 (bad request) or 500 (caught by error handler) are both acceptable
-  if (response.status === 400 || response.status === 500) {
-    logPass("POST with invalid JSON is rejected");
+  const response = await fetch(statusUrl);
+  const etag = response.headers.get("etag");
+
+  if (etag) {
+    logPass("Job status returns ETag header");
   } else {
-    logFail(
-      "POST with invalid JSON is rejected",
-      "400 or 500",
-      String(response.status),
-    );
+    logFail("Job status returns ETag header", "etag: <hash>", "not found");
   }
 
-  // POST with wrong content type should be handled
-  const response2 = await fetch(`${BASE_URL}/v1/download/check`, {
-    method: "POST",
-    headers: { "Content-Type": "text/plain" },
-    body: JSON.stringify({ file_id: 70000 }),
+  // 304 unless a progress tick changed the job in between
+  const conditional = await fetch(statusUrl, {
+    headers: { "If-None-Match": etag ?? "" },
   });
 
-  // Either rejected (400/415) or handled gracefully
   if (
-    response2.status === 400 ||
-    response2.status === 415 ||
-    response2.status === 200
+    conditional.status === 304 ||
+    (conditional.status === 200 && conditional.headers.get("etag") !== etag)
   ) {
-    logPass("POST with text/plain Content-Type is handled");
+    logPass("Job status honours If-None-Match");
   } else {
     logFail(
-      "POST with text/plain Content-Type is handled",
-      "400, 415, or 200",
-      String(response2.status),
+      "Job status honours If-None-Match",
+      "304 or 200 with a new ETag",
+      `${String(conditional.status)} etag=${conditional.headers.get("etag") ?? ""}`,
     );
   }
-}
-
-async function testMethodNotAllowed(): Promise<void> {
-  logSection("Method Validation");
 
-  // DELETE on root should return 404 or 405
-  const response1 = await fetch(`${BASE_URL}/`, { method: "DELETE" });
+  // Long-poll returns once the wait expires or the job changes
+  const started = Date.now();
+  const longPoll = await fetch(`${statusUrl}?wait=1`, {
+    headers: { "If-None-Match": conditional.headers.get("etag") ?? etag ?? "" },
+  });
+  const elapsed = Date.now() - started;
 
-  if (response1.status === 404 || response1.status === 405) {
-    logPass("DELETE on root returns 404/405");
+  if ((longPoll.status === 304 || longPoll.status === 200) && elapsed < 5000) {
+    logPass("Job status long-poll returns within the wait");
   } else {
     logFail(
-      "DELETE on root returns 404/405",
-      "404 or 405",
-      String(response1.status),
+      "Job status long-poll returns within the wait",
+      "304 or 200 within ~1s",
+      `${String(longPoll.status)} after ${String(elapsed)}ms`,
     );
   }
 
-  // GET on POST-only endpoint
-  const response2 = await fetch(`${BASE_URL}/v1/download/check`);
+  const invalidWait = await fetch(`${statusUrl}?wait=3600`);
 
-  if (response2.status === 404 || response2.status === 405) {
-    logPass("GET on POST-only endpoint returns 404/405");
+  if (invalidWait.status === 400) {
+    logPass("Job status rejects excessive wait");
   } else {
     logFail(
-      "GET on POST-only endpoint returns 404/405",
-      "404 or 405",
-      String(response2.status),
+      "Job status rejects excessive wait",
+      "400",
+      String(invalidWait.status),
     );
   }
 }
 
-async function testRateLimiting(): Promise<void> {
-  logSection("Rate Limiting");
+async function testJobEvents(): Promise<void> {
+  logSection("Job Events (SSE)");
 
-  // Get initial remaining count
-  const response1 = await fetch(`${BASE_URL}/`);
-  const remaining = response1.headers.get("ratelimit-remaining");
+  const initiateResponse = await fetch(`${BASE_URL}/v1/download/initiate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file_ids: [70000] }),
+  });
+  const { jobId } = (await initiateResponse.json()) as { jobId?: string };
 
-  if (remaining && parseInt(remaining, 10) > 0) {
-    logPass("Rate limit remaining is tracked");
+  const controller = new AbortController();
+  const response = await fetch(
+    `${BASE_URL}/v1/download/status/${jobId ?? ""}/events`,
+    { signal: controller.signal },
+  );
+
+  if (response.headers.get("content-type")?.includes("text/event-stream")) {
+    logPass("Job events responds with text/event-stream");
   } else {
-    logFail("Rate limit remaining is tracked", "> 0", remaining ?? "not found");
+    logFail(
+      "Job events responds with text/event-stream",
+      "content-type: text/event-stream",
+      response.headers.get("content-type") ?? "not found",
+    );
   }
 
-  // Make another request and check remaining continues to be tracked
-  await new Promise((resolve) => setTimeout(resolve, 100));
-  const response2 = await fetch(`${BASE_URL}/`);
-  const newRemaining = response2.headers.get("ratelimit-remaining");
+  // The current status is sent immediately on connect
+  const reader = response.body?.getReader();
+  const chunk = await reader?.read();
+  const text = new TextDecoder().decode(chunk?.value);
+  controller.abort();
 
-  if (newRemaining) {
-    logPass("Rate limit remaining continues to be tracked");
+  if (text.includes("event: status") && text.includes(jobId ?? "")) {
+    logPass("Job events sends current status on connect");
   } else {
     logFail(
-      "Rate limit remaining continues to be tracked",
-      "number",
-      newRemaining ?? "not found",
+      "Job events sends current status on connect",
+      "event: status with jobId",
+      text,
     );
   }
-}
 
-function printSummary(): void {
-  console.log();
-  console.log(`${colors.yellow}==============================${colors.reset}`);
-  console.log(`${colors.yellow}        TEST SUMMARY          ${colors.reset}`);
-  console.log(`${colors.yellow}==============================${colors.reset}`);
-  console.log(`Total:  ${results.total}`);
-  console.log(`${colors.green}Passed: ${results.passed}${colors.reset}`);
-  console.log(`${colors.red}Failed: ${results.failed}${colors.reset}`);
-  console.log();
+  // Unknown job
+  const notFound = await fetch(
+    `${BASE_URL}/v1/download/status/${crypto.randomUUID()}/events`,
+  );
 
-  if (results.failed === 0) {
-    console.log(`${colors.green}All tests passed!${colors.reset}`);
+  if (notFound.status === 404) {
+    logPass("Job events returns 404 for unknown job");
   } else {
-    console.log(`${colors.red}Some tests failed.${colors.reset}`);
+    logFail(
+      "Job events returns 404 for unknown job",
+      "404",
+      String(notFound.status),
+    );
   }
 }
 
-async function main(): Promise<void> {
-  console.log("E2E Tests for Delineate Hackathon Challenge API");
-  console.log(`Base URL: ${BASE_URL}`);
-  console.log();
+async function testJobWebSocket(): Promise<void> {
+  logSection("Job Subscriptions (WebSocket)");
 
-  await waitForServer();
+  const initiateResponse = await fetch(`${BASE_URL}/v1/download/initiate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file_ids: [70000] }),
+  });
+  const { jobId } = (await initiateResponse.json()) as { jobId?: string };
+
+  const messages: { type?: string; job?: { jobId?: string } }[] = [];
+  const ws = new WebSocket(`${BASE_URL.replace(/^http/, "ws")}/v1/download/ws`);
+  await new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, 5000);
+    ws.onopen = () => {
+      ws.send(JSON.stringify({ type: "subscribe", jobIds: [jobId] }));
+    };
+    ws.onmessage = (event) => {
+      messages.push(JSON.parse(String(event.data)) as (typeof messages)[0]);
+      if (messages.some((m) => m.type === "status")) {
+        clearTimeout(timer);
+        resolve();
+      }
+    };
+    ws.onerror = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+  });
+  ws.close();
 
-  await testRoot();
-  await testHealth();
-  await testSecurityHeaders();
-  await testDownloadInitiate();
+  if (messages.some((m) => m.type === "subscribed")) {
+    logPass("WebSocket acknowledges subscriptions");
+  } else {
+    logFail(
+      "WebSocket acknowledges subscriptions",
+      '{"type":"subscribed"}',
+      JSON.stringify(messages),
+    );
+  }
+
+  if (messages.some((m) => m.type === "status" && m.job?.jobId === jobId)) {
+    logPass("WebSocket delivers status for subscribed job");
+  } else {
+    logFail(
+      "WebSocket delivers status for subscribed job",
+      `{"type":"status","job":{"jobId":"${jobId ?? ""}"}}`,
+      JSON.stringify(messages),
+    );
+  }
+}
+
+async function testJobCancel(): Promise<void> {
+  logSection("Cancel Job Endpoint");
+
+  const initiateResponse = await fetch(`${BASE_URL}/v1/download/initiate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file_ids: [70000, 70001, 70002, 70003, 70004] }),
+  });
+  const { jobId } = (await initiateResponse.json()) as { jobId?: string };
+
+  // The job may already have finished on a fast configuration
+  const response = await fetch(`${BASE_URL}/v1/download/jobs/${jobId ?? ""}`, {
+    method: "DELETE",
+  });
+  const data = (await response.json()) as { status?: string };
+
+  if (response.status === 409) {
+    logPass("Cancel rejects an already finished job with 409");
+  } else if (response.status === 200 && data.status === "cancelled") {
+    logPass("Cancel returns cancelled status");
+
+    const statusResponse = await fetch(
+      `${BASE_URL}/v1/download/status/${jobId ?? ""}`,
+    );
+    const statusData = (await statusResponse.json()) as { status?: string };
+    if (statusData.status === "cancelled") {
+      logPass("Job status reports cancelled");
+    } else {
+      logFail(
+        "Job status reports cancelled",
+        '"status":"cancelled"',
+        JSON.stringify(statusData),
+      );
+    }
+
+    const again = await fetch(`${BASE_URL}/v1/download/jobs/${jobId ?? ""}`, {
+      method: "DELETE",
+    });
+    if (again.status === 200) {
+      logPass("Cancelling twice is a no-op");
+    } else {
+      logFail("Cancelling twice is a no-op", "200", String(again.status));
+    }
+  } else {
+    logFail(
+      "Cancel returns cancelled status",
+      '200 with "status":"cancelled" or 409',
+      `${String(response.status)} ${JSON.stringify(data)}`,
+    );
+  }
+
+  // Unknown job
+  const notFound = await fetch(
+    `${BASE_URL}/v1/download/jobs/${crypto.randomUUID()}`,
+    { method: "DELETE" },
+  );
+  if (notFound.status === 404) {
+    logPass("Cancel returns 404 for unknown job");
+  } else {
+    logFail(
+      "Cancel returns 404 for unknown job",
+      "404",
+      String(notFound.status),
+    );
+  }
+}
+
+async function testWebhookDeliveries(): Promise<void> {
+  logSection("Webhook Deliveries Endpoint");
+
+  // Only http(s) callbacks are accepted
+  const invalidResponse = await fetch(`${BASE_URL}/v1/download/initiate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      file_ids: [70000],
+      callbackUrl: "ftp://example.com/hook",
+    }),
+  });
+
+  if (invalidResponse.status === 400) {
+    logPass("Download initiate rejects non-HTTP callbackUrl");
+  } else {
+    logFail(
+      "Download initiate rejects non-HTTP callbackUrl",
+      "400",
+      String(invalidResponse.status),
+    );
+  }
+
+  // Job without a callback has an empty delivery log
+  const initiateResponse = await fetch(`${BASE_URL}/v1/download/initiate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file_ids: [70000] }),
+  });
+  const { jobId } = (await initiateResponse.json()) as { jobId?: string };
+
+  const response = await fetch(
+    `${BASE_URL}/v1/download/jobs/${jobId ?? ""}/webhook`,
+  );
+  const data = (await response.json()) as {
+    callbackUrl?: string | null;
+    deliveries?: unknown[];
+  };
+
+  if (
+    response.status === 200 &&
+    data.callbackUrl === null &&
+    data.deliveries?.length === 0
+  ) {
+    logPass("Webhook deliveries are empty without callbackUrl");
+  } else {
+    logFail(
+      "Webhook deliveries are empty without callbackUrl",
+      '{"callbackUrl":null,"deliveries":[]}',
+      JSON.stringify(data),
+    );
+  }
+
+  // Unknown job
+  const notFound = await fetch(
+    `${BASE_URL}/v1/download/jobs/${crypto.randomUUID()}/webhook`,
+  );
+  if (notFound.status === 404) {
+    logPass("Webhook deliveries return 404 for unknown job");
+  } else {
+    logFail(
+      "Webhook deliveries return 404 for unknown job",
+      "404",
+      String(notFound.status),
+    );
+  }
+
+  // The server only allows callbacks to 127.0.0.1
+  const unlisted = await fetch(`${BASE_URL}/v1/download/initiate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      file_ids: [70000],
+      callbackUrl: "http://localhost:9/hook",
+    }),
+  });
+  if (unlisted.status === 400) {
+    logPass("Download initiate rejects a callbackUrl host outside the list");
+  } else {
+    logFail(
+      "Download initiate rejects a callbackUrl host outside the list",
+      "400",
+      String(unlisted.status),
+    );
+  }
+
+  if (!WEBHOOK_SECRET) return;
+
+  // A receiver on the allowed host gets the finished job, signed
+  const received: { signature: string; body: string }[] = [];
+  const receiver = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      received.push({
+        signature: String(req.headers["x-webhook-signature"] ?? ""),
+        body: Buffer.concat(chunks).toString(),
+      });
+      res.writeHead(204).end();
+    });
+  });
+  receiver.listen(0, "127.0.0.1");
+  await once(receiver, "listening");
+  const { port } = receiver.address() as AddressInfo;
+
+  try {
+    const callbackResponse = await fetch(`${BASE_URL}/v1/download/initiate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        file_ids: [70000],
+        callbackUrl: `http://127.0.0.1:${String(port)}/hook`,
+      }),
+    });
+    const { jobId: callbackJobId = "" } = (await callbackResponse.json()) as {
+      jobId?: string;
+    };
+
+    // Wait for the delivery (needs short delays on the server)
+    for (let i = 0; i < 60 && received.length === 0; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+
+    const [delivery] = received;
+    const [t = "", v1 = ""] = (delivery?.signature ?? "")
+      .split(",")
+      .map((part) => part.split("=")[1]);
+    const expected = createHmac("sha256", WEBHOOK_SECRET)
+      .update(`${t}.${delivery?.body ?? ""}`)
+      .digest("hex");
+    const payload = delivery
+      ? (JSON.parse(delivery.body) as { jobId?: string })
+      : null;
+    if (v1 === expected && payload?.jobId === callbackJobId) {
+      logPass("Webhook receiver gets the finished job, signed");
+    } else {
+      logFail(
+        "Webhook receiver gets the finished job, signed",
+        `a delivery for ${callbackJobId} with a valid signature`,
+        JSON.stringify(delivery ?? null),
+      );
+    }
+
+    const log = (await fetch(
+      `${BASE_URL}/v1/download/jobs/${callbackJobId}/webhook`,
+    ).then((res) => res.json())) as {
+      deliveries?: { status?: string; statusCode?: number | null }[];
+    };
+    if (
+      log.deliveries?.[0]?.status === "delivered" &&
+      log.deliveries[0].statusCode === 204
+    ) {
+      logPass("Webhook deliveries log the accepted attempt");
+    } else {
+      logFail(
+        "Webhook deliveries log the accepted attempt",
+        '[{"status":"delivered","statusCode":204}]',
+        JSON.stringify(log.deliveries),
+      );
+    }
+  } finally {
+    receiver.close();
+  }
+}
+
+async function testWebhookTargets(): Promise<void> {
+  logSection("Webhook Callback Targets");
+
+  // By default callbacks may not reach loopback, private or link-local
+  // addresses, whether given directly or by name
+  for (const callbackUrl of [
+    "http://127.0.0.1:9/hook",
+    "http://[::1]/hook",
+    "http://[::ffff:127.0.0.1]/hook",
+    "http://10.0.0.1/hook",
+    "http://169.254.169.254/latest/meta-data",
+    "http://localhost/hook",
+  ]) {
+    const response = await fetch(`${AUTH_BASE_URL}/v1/download/initiate`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...apiKeyHeader("reader"),
+      },
+      body: JSON.stringify({ file_ids: [70000], callbackUrl }),
+    });
+    if (response.status === 400) {
+      logPass(`Download initiate rejects callbackUrl ${callbackUrl}`);
+    } else {
+      logFail(
+        `Download initiate rejects callbackUrl ${callbackUrl}`,
+        "400",
+        String(response.status),
+      );
+    }
+  }
+}
+
+async function testDownloadCheck(): Promise<void> {
+  logSection("Download Check Endpoint");
+
+  // Valid request - file exists (70000 was uploaded earlier)
+  const response = await fetch(`${BASE_URL}/v1/download/check`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file_id: 70000 }),
+  });
+  const data = (await response.json()) as {
+    file_id?: number;
+    available?: boolean;
+  };
+
+  if (data.file_id === 70000) {
+    logPass("Download check returns correct file_id");
+  } else {
+    logFail(
+      "Download check returns correct file_id",
+      '"file_id":70000',
+      String(data.file_id),
+    );
+  }
+
+  if (typeof data.available === "boolean") {
+    logPass("Download check returns available field");
+  } else {
+    logFail(
+      "Download check returns available field",
+      '"available": true/false',
+      String(data.available),
+    );
+  }
+
+  // Valid request - file likely doesn't exist
+  const response2 = await fetch(`${BASE_URL}/v1/download/check`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file_id: 99999 }),
+  });
+  const data2 = (await response2.json()) as { file_id?: number };
+
+  if (data2.file_id === 99999) {
+    logPass("Download check returns correct file_id for non-existent file");
+  } else {
+    logFail(
+      "Download check returns correct file_id for non-existent file",
+      '"file_id":99999',
+      String(data2.file_id),
+    );
+  }
+
+  // Invalid request - file_id too small
+  const invalidResponse1 = await fetch(`${BASE_URL}/v1/download/check`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file_id: 100 }),
+  });
+
+  if (invalidResponse1.status === 400) {
+    logPass("Download check rejects file_id < 10000");
+  } else {
+    logFail(
+      "Download check rejects file_id < 10000",
+      "400",
+      String(invalidResponse1.status),
+    );
+  }
+
+  // Invalid request - file_id too large
+  const invalidResponse2 = await fetch(`${BASE_URL}/v1/download/check`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file_id: 999999999 }),
+  });
+
+  if (invalidResponse2.status === 400) {
+    logPass("Download check rejects file_id > 100000000");
+  } else {
+    logFail(
+      "Download check rejects file_id > 100000000",
+      "400",
+      String(invalidResponse2.status),
+    );
+  }
+}
+
+async function testDownloadStart(): Promise<void> {
+  logSection("Download Start Endpoint");
+
+  // Runs the full simulated delay, so the server needs short delays here
+  const response = await fetch(`${BASE_URL}/v1/download/start`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file_id: 70000 }),
+  });
+  const data = (await response.json()) as {
+    status?: string;
+    downloadUrl?: string | null;
+  };
+
+  if (data.status === "completed" && data.downloadUrl?.startsWith("http")) {
+    logPass("Download start returns a download URL");
+  } else {
+    logFail(
+      "Download start returns a download URL",
+      '"status":"completed" with a downloadUrl',
+      JSON.stringify(data),
+    );
+  }
+
+  if (
+    data.downloadUrl &&
+    (await fetch(data.downloadUrl, { method: "HEAD" })).status === 200
+  ) {
+    logPass("Download start URL serves the file");
+  } else {
+    logFail(
+      "Download start URL serves the file",
+      "200",
+      data.downloadUrl ?? "no downloadUrl",
+    );
+  }
+
+  // Streaming mode
+  const streamResponse = await fetch(`${BASE_URL}/v1/download/start`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/x-ndjson",
+    },
+    body: JSON.stringify({ file_id: 70001 }),
+  });
+
+  if (
+    streamResponse.headers.get("content-type")?.includes("application/x-ndjson")
+  ) {
+    logPass("Download start streams application/x-ndjson when asked");
+  } else {
+    logFail(
+      "Download start streams application/x-ndjson when asked",
+      "content-type: application/x-ndjson",
+      streamResponse.headers.get("content-type") ?? "not found",
+    );
+  }
+
+  const lines = (await streamResponse.text())
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line) as { type?: string; status?: string });
+  const last = lines.at(-1);
+
+  if (lines[0]?.type === "progress" && last?.type === "result") {
+    logPass("Download start stream sends progress then a result");
+  } else {
+    logFail(
+      "Download start stream sends progress then a result",
+      "progress ... result",
+      lines.map((line) => line.type).join(", "),
+    );
+  }
+
+  if (last?.status === "failed") {
+    logPass("Download start stream reports a missing file as failed");
+  } else {
+    logFail(
+      "Download start stream reports a missing file as failed",
+      '"status":"failed"',
+      JSON.stringify(last),
+    );
+  }
+
+  // Validation is the same as without streaming
+  const invalidStreamResponse = await fetch(`${BASE_URL}/v1/download/start`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/x-ndjson",
+    },
+    body: JSON.stringify({ file_id: 5 }),
+  });
+
+  if (invalidStreamResponse.status === 400) {
+    logPass("Download start stream rejects an invalid file_id with 400");
+  } else {
+    logFail(
+      "Download start stream rejects an invalid file_id with 400",
+      "400",
+      String(invalidStreamResponse.status),
+    );
+  }
+}
+
+async function testJobIntegrity(): Promise<void> {
+  logSection("Job Integrity Checksums");
+
+  const initiateResponse = await fetch(`${BASE_URL}/v1/download/initiate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file_ids: [70014] }),
+  });
+  const { jobId = "" } = (await initiateResponse.json()) as { jobId?: string };
+
+  // Long-poll until the job finishes (needs short delays on the server)
+  let data: {
+    status?: string;
+    downloadUrl?: string | null;
+    sha256?: string | null;
+    files?: { sha256?: string | null }[];
+  } = {};
+  for (let i = 0; i < 10; i++) {
+    const statusResponse = await fetch(
+      `${BASE_URL}/v1/download/status/${jobId}?wait=5`,
+    );
+    data = (await statusResponse.json()) as typeof data;
+    if (data.status === "completed" || data.status === "failed") break;
+  }
+
+  if (
+    data.status === "completed" &&
+    /^[0-9a-f]{64}$/.test(data.sha256 ?? "") &&
+    data.files?.[0]?.sha256 === data.sha256
+  ) {
+    logPass("Completed job reports the SHA-256 of its file");
+  } else {
+    logFail(
+      "Completed job reports the SHA-256 of its file",
+      "completed with a hex sha256 on the job and the file",
+      JSON.stringify(data),
+    );
+  }
+
+  const download = data.downloadUrl ? await fetch(data.downloadUrl) : null;
+  const sha256 = download
+    ? createHash("sha256")
+        .update(Buffer.from(await download.arrayBuffer()))
+        .digest("hex")
+    : null;
+  if (sha256 !== null && sha256 === data.sha256) {
+    logPass("SHA-256 matches the bytes behind downloadUrl");
+  } else {
+    logFail(
+      "SHA-256 matches the bytes behind downloadUrl",
+      String(data.sha256),
+      String(sha256),
+    );
+  }
+}
+
+async function testFileContent(): Promise<void> {
+  logSection("File Content Endpoint");
+
+  const initiateResponse = await fetch(`${BASE_URL}/v1/download/initiate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file_ids: [70007, 70001] }),
+  });
+  const { jobId = "" } = (await initiateResponse.json()) as { jobId?: string };
+
+  // Long-poll until the job finishes (needs short delays on the server)
+  for (let i = 0; i < 10; i++) {
+    const statusResponse = await fetch(
+      `${BASE_URL}/v1/download/status/${jobId}?wait=5`,
+    );
+    const { status } = (await statusResponse.json()) as { status?: string };
+    if (status === "partially_completed" || status === "failed") break;
+  }
+
+  const url = `${BASE_URL}/v1/files/70007/content?jobId=${jobId}`;
+  const response = await fetch(url);
+  const full = Buffer.from(await response.arrayBuffer());
+  const etag = response.headers.get("etag");
+
+  if (
+    response.status === 200 &&
+    full.length === Number(response.headers.get("content-length")) &&
+    etag !== null &&
+    response.headers.get("last-modified") !== null
+  ) {
+    logPass("File content streams the file with ETag and Last-Modified");
+  } else {
+    logFail(
+      "File content streams the file with ETag and Last-Modified",
+      "200 with Content-Length, ETag and Last-Modified",
+      `${String(response.status)} ${String(full.length)} bytes, etag=${String(etag)}`,
+    );
+  }
+
+  if (
+    response.headers
+      .get("content-disposition")
+      ?.includes('filename="file-70007.zip"')
+  ) {
+    logPass("File content sets a Content-Disposition filename");
+  } else {
+    logFail(
+      "File content sets a Content-Disposition filename",
+      'filename="file-70007.zip"',
+      response.headers.get("content-disposition") ?? "not found",
+    );
+  }
+
+  // Resume from byte 100 while the ETag still matches
+  const rangeResponse = await fetch(url, {
+    headers: { Range: "bytes=100-199", "If-Range": etag ?? "" },
+  });
+  const range = Buffer.from(await rangeResponse.arrayBuffer());
+
+  if (
+    rangeResponse.status === 206 &&
+    rangeResponse.headers.get("content-range") ===
+      `bytes 100-199/${String(full.length)}` &&
+    range.equals(full.subarray(100, 200))
+  ) {
+    logPass("File content serves a byte range with 206");
+  } else {
+    logFail(
+      "File content serves a byte range with 206",
+      `206 with bytes 100-199/${String(full.length)}`,
+      `${String(rangeResponse.status)} ${rangeResponse.headers.get("content-range") ?? "no Content-Range"}`,
+    );
+  }
+
+  const staleResponse = await fetch(url, {
+    headers: { Range: "bytes=100-199", "If-Range": '"stale"' },
+  });
+  await staleResponse.body?.cancel();
+
+  if (staleResponse.status === 200) {
+    logPass("File content ignores the range when If-Range is stale");
+  } else {
+    logFail(
+      "File content ignores the range when If-Range is stale",
+      "200",
+      String(staleResponse.status),
+    );
+  }
+
+  const unsatisfiable = await fetch(url, {
+    headers: { Range: `bytes=${String(full.length)}-` },
+  });
+
+  if (
+    unsatisfiable.status === 416 &&
+    unsatisfiable.headers.get("content-range") ===
+      `bytes */${String(full.length)}`
+  ) {
+    logPass("File content rejects a range past the end with 416");
+  } else {
+    logFail(
+      "File content rejects a range past the end with 416",
+      `416 with bytes */${String(full.length)}`,
+      String(unsatisfiable.status),
+    );
+  }
+
+  // A file the job did not complete
+  const notFound = await fetch(
+    `${BASE_URL}/v1/files/70001/content?jobId=${jobId}`,
+  );
+
+  if (notFound.status === 404) {
+    logPass("File content returns 404 for a file the job did not complete");
+  } else {
+    logFail(
+      "File content returns 404 for a file the job did not complete",
+      "404",
+      String(notFound.status),
+    );
+  }
+}
+
+async function testFileMetadata(): Promise<void> {
+  logSection("File Metadata Endpoint");
+
+  const response = await fetch(`${BASE_URL}/v1/files/70000`);
+  const data = (await response.json()) as {
+    file_id?: number;
+    size?: number | null;
+    lastModified?: string | null;
+    metadata?: Record<string, string>;
+    checksums?: Record<string, string | null>;
+  };
+
+  if (
+    response.status === 200 &&
+    data.file_id === 70000 &&
+    typeof data.size === "number" &&
+    typeof data.lastModified === "string" &&
+    typeof data.metadata === "object" &&
+    typeof data.checksums === "object"
+  ) {
+    logPass("File metadata returns HeadObject details");
+  } else {
+    logFail(
+      "File metadata returns HeadObject details",
+      "200 with size, lastModified, metadata and checksums",
+      `${String(response.status)} ${JSON.stringify(data)}`,
+    );
+  }
+
+  if (response.headers.get("cache-control")?.includes("max-age=")) {
+    logPass("File metadata is cacheable");
+  } else {
+    logFail(
+      "File metadata is cacheable",
+      "Cache-Control with max-age",
+      response.headers.get("cache-control") ?? "not found",
+    );
+  }
+
+  const notFound = await fetch(`${BASE_URL}/v1/files/70001`);
+  if (notFound.status === 404) {
+    logPass("File metadata returns 404 for a missing file");
+  } else {
+    logFail(
+      "File metadata returns 404 for a missing file",
+      "404",
+      String(notFound.status),
+    );
+  }
+
+  const invalid = await fetch(`${BASE_URL}/v1/files/100`);
+  if (invalid.status === 400) {
+    logPass("File metadata rejects fileId < 10000");
+  } else {
+    logFail(
+      "File metadata rejects fileId < 10000",
+      "400",
+      String(invalid.status),
+    );
+  }
+}
+
+async function testAuthentication(): Promise<void> {
+  logSection("Authentication");
+
+  const usage = (headers: Record<string, string>) =>
+    fetch(`${AUTH_BASE_URL}/v1/usage`, { headers }).then(
+      (response) => response.status,
+    );
+  const bearer = (token: string) => ({ Authorization: `Bearer ${token}` });
+  const base64url = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  const exp = Math.floor(Date.now() / 1000) + 60;
+
+  const statuses = {
+    none: await usage({}),
+    apiKey: await usage(apiKeyHeader("reader")),
+    wrongApiKey: await usage({ "X-API-Key": "wrong" }),
+    hs256: await usage(bearer(await signHs256({ sub: "reader" }))),
+    rs256: await usage(
+      bearer(
+        await sign(
+          { sub: "reader", exp },
+          process.env.AUTH_JWT_RS256_PRIVATE_KEY ?? "",
+          "RS256",
+        ),
+      ),
+    ),
+  };
+  if (
+    statuses.none === 401 &&
+    statuses.apiKey === 200 &&
+    statuses.wrongApiKey === 401 &&
+    statuses.hs256 === 200 &&
+    statuses.rs256 === 200
+  ) {
+    logPass("API keys and HS256/RS256 bearer tokens authenticate");
+  } else {
+    logFail(
+      "API keys and HS256/RS256 bearer tokens authenticate",
+      "401 without or with a wrong key, 200 for a key, HS256 and RS256",
+      JSON.stringify(statuses),
+    );
+  }
+
+  const rejected = {
+    // Unsigned, which must never be trusted
+    algNone: await usage(
+      bearer(
+        `${base64url({ alg: "none", typ: "JWT" })}.${base64url({ sub: "reader", exp })}.`,
+      ),
+    ),
+    // HS256 keyed with the RS256 public key, which anyone can read
+    algConfusion: await usage(
+      bearer(
+        await sign(
+          { sub: "reader", exp },
+          process.env.AUTH_JWT_RS256_PUBLIC_KEY ?? "",
+          "HS256",
+        ),
+      ),
+    ),
+    wrongSecret: await usage(
+      bearer(await sign({ sub: "reader", exp }, "not-the-secret", "HS256")),
+    ),
+    expired: await usage(
+      bearer(
+        await signHs256({
+          sub: "reader",
+          exp: Math.floor(Date.now() / 1000) - 60,
+        }),
+      ),
+    ),
+    noSubject: await usage(bearer(await signHs256({}))),
+  };
+  if (Object.values(rejected).every((status) => status === 401)) {
+    logPass(
+      "Bearer tokens with alg=none, alg confusion, a wrong key, expiry or no sub are rejected",
+    );
+  } else {
+    logFail(
+      "Bearer tokens with alg=none, alg confusion, a wrong key, expiry or no sub are rejected",
+      "401 for each",
+      JSON.stringify(rejected),
+    );
+  }
+
+  // Jobs belong to the client that created them, however it authenticates
+  const initiateResponse = await fetch(
+    `${AUTH_BASE_URL}/v1/download/initiate`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...apiKeyHeader("reader"),
+      },
+      body: JSON.stringify({ file_ids: [70000] }),
+    },
+  );
+  const { jobId = "" } = (await initiateResponse.json()) as { jobId?: string };
+  const statusOf = (headers: Record<string, string>) =>
+    fetch(`${AUTH_BASE_URL}/v1/download/status/${jobId}`, { headers }).then(
+      (response) => response.status,
+    );
+  const owners = {
+    owner: await statusOf(apiKeyHeader("reader")),
+    ownerByJwt: await statusOf(bearer(await signHs256({ sub: "reader" }))),
+    other: await statusOf(apiKeyHeader("uploader")),
+    otherCancel: await fetch(`${AUTH_BASE_URL}/v1/download/jobs/${jobId}`, {
+      method: "DELETE",
+      headers: apiKeyHeader("uploader"),
+    }).then((response) => response.status),
+  };
+  if (
+    owners.owner === 200 &&
+    owners.ownerByJwt === 200 &&
+    owners.other === 404 &&
+    owners.otherCancel === 404
+  ) {
+    logPass("Another client's job returns 404");
+  } else {
+    logFail(
+      "Another client's job returns 404",
+      "200 for the owner (API key or JWT), 404 to read or cancel for others",
+      JSON.stringify(owners),
+    );
+  }
+
+  const listed = (await fetch(`${AUTH_BASE_URL}/v1/download/jobs`, {
+    headers: apiKeyHeader("uploader"),
+  }).then((response) => response.json())) as {
+    jobs?: { jobId?: string }[];
+  };
+  if (listed.jobs && !listed.jobs.some((job) => job.jobId === jobId)) {
+    logPass("Job listings leave out other clients' jobs");
+  } else {
+    logFail(
+      "Job listings leave out other clients' jobs",
+      `no job ${jobId}`,
+      JSON.stringify(listed),
+    );
+  }
+}
+
+async function testAuthenticatedWebSocket(): Promise<void> {
+  logSection("WebSocket Authentication");
+
+  const wsUrl = `${AUTH_BASE_URL.replace(/^http/, "ws")}/v1/download/ws`;
+  const jwt = await signHs256({ sub: "browser" });
+  const opened = {
+    apiKey: await openWebSocket(
+      `${wsUrl}?api_key=${AUTH_API_KEYS.get("reader") ?? ""}`,
+    ),
+    accessToken: await openWebSocket(`${wsUrl}?access_token=${jwt}`),
+    none: await openWebSocket(wsUrl),
+    wsToken: await openWebSocket(`${wsUrl}?token=e2e-ws-token`),
+    badKey: await openWebSocket(`${wsUrl}?api_key=wrong`),
+  };
+
+  if (opened.apiKey && opened.accessToken) {
+    logPass("WebSocket accepts ?api_key= and ?access_token= credentials");
+  } else {
+    logFail(
+      "WebSocket accepts ?api_key= and ?access_token= credentials",
+      "both open",
+      JSON.stringify(opened),
+    );
+  }
+
+  if (!opened.none && !opened.wsToken && !opened.badKey) {
+    logPass("WebSocket refuses upgrades without valid API credentials");
+  } else {
+    logFail(
+      "WebSocket refuses upgrades without valid API credentials",
+      "none, WS_AUTH_TOKEN alone and a wrong key refused",
+      JSON.stringify(opened),
+    );
+  }
+
+  // Query credentials are only for upgrades
+  const queryKey = await fetch(
+    `${AUTH_BASE_URL}/v1/usage?api_key=${AUTH_API_KEYS.get("reader") ?? ""}`,
+  );
+  if (queryKey.status === 401) {
+    logPass("Plain requests ignore ?api_key=");
+  } else {
+    logFail("Plain requests ignore ?api_key=", "401", String(queryKey.status));
+  }
+}
+
+// A server of their own for tests that restart it or need other settings
+const TEST_SERVER_PORT = 3004;
+const TEST_SERVER_URL = `http://localhost:${String(TEST_SERVER_PORT)}`;
+
+async function startTestServer(
+  env: Record<string, string>,
+): Promise<ChildProcess> {
+  const server = spawn(
+    "node",
+    ["--experimental-transform-types", "src/index.ts"],
+    {
+      cwd: path.resolve(path.dirname(fileURLToPath(import.meta.url)), ".."),
+      stdio: "ignore",
+      env: { ...process.env, ...env, PORT: String(TEST_SERVER_PORT) },
+    },
+  );
+  for (let i = 0; i < 30; i++) {
+    try {
+      await fetch(`${TEST_SERVER_URL}/health`);
+      break;
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+  }
+  return server;
+}
+
+async function stopTestServer(server: ChildProcess): Promise<void> {
+  if (server.exitCode !== null || server.signalCode !== null) return;
+  const exited = once(server, "exit");
+  server.kill("SIGTERM");
+  await exited;
+}
+
+async function testJournalReplay(): Promise<void> {
+  logSection("Local Queue Journal Replay");
+
+  const tempDir = await mkdtemp(path.join(tmpdir(), "e2e-journal-"));
+  const journalPath = path.join(tempDir, "queue.journal");
+  const replayEnv = {
+    JOB_STORE: "sqlite",
+    JOB_STORE_PATH: path.join(tempDir, "jobs.sqlite"),
+    LOCAL_QUEUE_JOURNAL_PATH: journalPath,
+  };
+  let server = await startTestServer(replayEnv);
+
+  try {
+    const initiateResponse = await fetch(
+      `${TEST_SERVER_URL}/v1/download/initiate`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ file_ids: [70000] }),
+      },
+    );
+    const { jobId = "" } = (await initiateResponse.json()) as {
+      jobId?: string;
+    };
+    const getStatus = async () =>
+      (await fetch(
+        `${TEST_SERVER_URL}/v1/download/status/${jobId}?wait=5`,
+      ).then((res) => res.json())) as { status?: string; updatedAt?: string };
+    let finished = await getStatus();
+    for (
+      let i = 0;
+      i < 10 &&
+      (finished.status === "queued" || finished.status === "processing");
+      i++
+    ) {
+      finished = await getStatus();
+    }
+    await stopTestServer(server);
+
+    // As if the process had died before the queue recorded the job as done
+    await appendFile(
+      journalPath,
+      `${JSON.stringify({
+        op: "add",
+        id: jobId,
+        name: "download",
+        data: { jobId, fileIds: [70000], bundle: false },
+        opts: { jobId, attempts: 3, backoff: { type: "storage" } },
+        timestamp: Date.now(),
+      })}\n`,
+    );
+    server = await startTestServer(replayEnv);
+
+    // The journal starts over once the replayed job is done with
+    for (let i = 0; i < 20; i++) {
+      if ((await readFile(journalPath, "utf8")) === "") break;
+      await new Promise((resolve) => setTimeout(resolve, 250));
+    }
+
+    const replayed = (await fetch(
+      `${TEST_SERVER_URL}/v1/download/status/${jobId}`,
+    ).then((res) => res.json())) as { status?: string; updatedAt?: string };
+    if (
+      finished.status === "completed" &&
+      replayed.status === "completed" &&
+      replayed.updatedAt === finished.updatedAt
+    ) {
+      logPass("A finished job replayed from the journal is not run again");
+    } else {
+      logFail(
+        "A finished job replayed from the journal is not run again",
+        JSON.stringify(finished),
+        JSON.stringify(replayed),
+      );
+    }
+
+    const usage = (await fetch(`${TEST_SERVER_URL}/v1/usage`).then((res) =>
+      res.json(),
+    )) as { activeJobs?: { used?: number } };
+    if (usage.activeJobs?.used === 0) {
+      logPass("A replayed finished job takes no active-job slot");
+    } else {
+      logFail(
+        "A replayed finished job takes no active-job slot",
+        "0",
+        String(usage.activeJobs?.used),
+      );
+    }
+  } finally {
+    await stopTestServer(server);
+    await rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+async function testCancelledJobUsage(): Promise<void> {
+  logSection("Cancelled Job Usage");
+
+  // Slow enough to cancel a ten-file job once some of its files are ready
+  const server = await startTestServer({
+    DOWNLOAD_DELAY_ENABLED: "true",
+    DOWNLOAD_DELAY_MIN_MS: "10000",
+    DOWNLOAD_DELAY_MAX_MS: "10000",
+  });
+
+  try {
+    const initiate = await fetch(`${TEST_SERVER_URL}/v1/download/initiate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        file_ids: Array.from({ length: 10 }, (_, i) => 70000 + i * 7),
+      }),
+    });
+    const { jobId = "" } = (await initiate.json()) as { jobId?: string };
+
+    let completedFiles = 0;
+    for (let i = 0; i < 20 && completedFiles < 2; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      const status = (await fetch(
+        `${TEST_SERVER_URL}/v1/download/status/${jobId}`,
+      ).then((res) => res.json())) as { completedFiles?: number };
+      completedFiles = status.completedFiles ?? 0;
+    }
+    const countedBefore = (await fetch(`${TEST_SERVER_URL}/v1/usage`).then(
+      (res) => res.json(),
+    )) as { dailyBytes?: { used?: number } };
+
+    await fetch(`${TEST_SERVER_URL}/v1/download/jobs/${jobId}`, {
+      method: "DELETE",
+    });
+    // The worker stops at its next file
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    const usage = (await fetch(`${TEST_SERVER_URL}/v1/usage`).then((res) =>
+      res.json(),
+    )) as { dailyBytes?: { used?: number } };
+
+    if (
+      (countedBefore.dailyBytes?.used ?? 0) > 0 &&
+      usage.dailyBytes?.used === 0
+    ) {
+      logPass("A cancelled job gives its bytes back to the daily budget");
+    } else {
+      logFail(
+        "A cancelled job gives its bytes back to the daily budget",
+        "bytes counted while running, 0 after the cancel",
+        `${String(countedBefore.dailyBytes?.used)} then ${String(usage.dailyBytes?.used)}`,
+      );
+    }
+  } finally {
+    await stopTestServer(server);
+  }
+}
+
+async function testUploadAccess(): Promise<void> {
+  logSection("File Upload Access");
+
+  const request = (baseUrl: string, headers: Record<string, string>) =>
+    fetch(`${baseUrl}/v1/files`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify({ file_id: 70009 }),
+    });
+
+  const withoutAuth = await request(BASE_URL, {});
+  if (withoutAuth.status === 403) {
+    logPass("Uploads are refused while authentication is disabled");
+  } else {
+    logFail(
+      "Uploads are refused while authentication is disabled",
+      "403",
+      String(withoutAuth.status),
+    );
+  }
+
+  const anonymous = await request(AUTH_BASE_URL, {});
+  if (anonymous.status === 401) {
+    logPass("Uploads require credentials");
+  } else {
+    logFail("Uploads require credentials", "401", String(anonymous.status));
+  }
+
+  const reader = await request(AUTH_BASE_URL, apiKeyHeader("reader"));
+  if (reader.status === 403) {
+    logPass("Uploads are refused for clients not in UPLOAD_CLIENTS");
+  } else {
+    logFail(
+      "Uploads are refused for clients not in UPLOAD_CLIENTS",
+      "403",
+      String(reader.status),
+    );
+  }
+
+  // 70000 is one of the files jobs serve
+  const existing = await fetch(`${AUTH_BASE_URL}/v1/files`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...apiKeyHeader("uploader"),
+    },
+    body: JSON.stringify({ file_id: 70000, parts: 2 }),
+  });
+  if (existing.status === 409) {
+    logPass("Uploads never target a file that exists");
+  } else {
+    logFail(
+      "Uploads never target a file that exists",
+      "409",
+      String(existing.status),
+    );
+  }
+}
+
+async function testFileUpload(): Promise<void> {
+  logSection("File Upload Endpoints");
+
+  const uploaderHeaders = {
+    "Content-Type": "application/json",
+    ...apiKeyHeader("uploader"),
+  };
+
+  // Single PUT
+  const response = await fetch(`${AUTH_BASE_URL}/v1/files`, {
+    method: "POST",
+    headers: uploaderHeaders,
+    body: JSON.stringify({ file_id: 70002 }),
+  });
+  const data = (await response.json()) as {
+    uploadUrl?: string | null;
+    uploadHeaders?: Record<string, string>;
+    s3Key?: string;
+  };
+
+  if (
+    response.status === 201 &&
+    data.s3Key === "downloads/70002.zip" &&
+    data.uploadUrl
+  ) {
+    logPass("Upload returns a presigned PUT URL");
+  } else {
+    logFail(
+      "Upload returns a presigned PUT URL",
+      '201 with "s3Key":"downloads/70002.zip" and an uploadUrl',
+      `${String(response.status)} ${JSON.stringify(data)}`,
+    );
+  }
+
+  const put = await fetch(data.uploadUrl ?? "", {
+    method: "PUT",
+    headers: data.uploadHeaders,
+    body: "uploaded contents",
+  });
+  const complete = await fetch(`${AUTH_BASE_URL}/v1/files/70002/complete`, {
+    method: "POST",
+    headers: uploaderHeaders,
+    body: JSON.stringify({}),
+  });
+  const completed = (await complete.json()) as { size?: number | null };
+
+  if (put.status === 200 && complete.status === 200 && completed.size === 17) {
+    logPass("Completing an upload reports the stored object");
+  } else {
+    logFail(
+      "Completing an upload reports the stored object",
+      'PUT 200, then 200 with "size":17',
+      `PUT ${String(put.status)}, ${String(complete.status)} ${JSON.stringify(completed)}`,
+    );
+  }
+
+  // Uploads never replace a file, whether through the URL or a new upload
+  const overwrite = await fetch(data.uploadUrl ?? "", {
+    method: "PUT",
+    headers: data.uploadHeaders,
+    body: "replaced contents",
+  });
+
+  if (overwrite.status === 412) {
+    logPass("Upload URL cannot replace the uploaded file");
+  } else {
+    logFail(
+      "Upload URL cannot replace the uploaded file",
+      "412",
+      String(overwrite.status),
+    );
+  }
+
+  const again = await fetch(`${AUTH_BASE_URL}/v1/files`, {
+    method: "POST",
+    headers: uploaderHeaders,
+    body: JSON.stringify({ file_id: 70002 }),
+  });
+
+  if (again.status === 409) {
+    logPass("Upload is refused for a file that exists");
+  } else {
+    logFail(
+      "Upload is refused for a file that exists",
+      "409",
+      String(again.status),
+    );
+  }
+
+  // Multipart
+  const multipart = await fetch(`${AUTH_BASE_URL}/v1/files`, {
+    method: "POST",
+    headers: uploaderHeaders,
+    body: JSON.stringify({ file_id: 70004, parts: 2 }),
+  });
+  const multipartData = (await multipart.json()) as {
+    uploadId?: string | null;
+    parts?: { partNumber: number; uploadUrl: string }[];
+  };
+
+  if (multipartData.uploadId && multipartData.parts?.length === 2) {
+    logPass("Multipart upload returns one URL per part");
+  } else {
+    logFail(
+      "Multipart upload returns one URL per part",
+      "an uploadId and 2 parts",
+      JSON.stringify(multipartData),
+    );
+  }
+
+  const parts = await Promise.all(
+    (multipartData.parts ?? []).map(async ({ partNumber, uploadUrl }) => {
+      const partResponse = await fetch(uploadUrl, {
+        method: "PUT",
+        body: `part ${String(partNumber)};`,
+      });
+      return { partNumber, etag: partResponse.headers.get("etag") ?? "" };
+    }),
+  );
+  const completePath = `${AUTH_BASE_URL}/v1/files/70004/complete`;
+  const mismatched = await fetch(completePath, {
+    method: "POST",
+    headers: uploaderHeaders,
+    body: JSON.stringify({
+      uploadId: multipartData.uploadId,
+      parts: parts.map((part) => ({ ...part, etag: '"wrong"' })),
+    }),
+  });
+
+  if (mismatched.status === 400) {
+    logPass("Multipart completion rejects parts with the wrong ETag");
+  } else {
+    logFail(
+      "Multipart completion rejects parts with the wrong ETag",
+      "400",
+      String(mismatched.status),
+    );
+  }
+
+  const multipartComplete = await fetch(completePath, {
+    method: "POST",
+    headers: uploaderHeaders,
+    body: JSON.stringify({ uploadId: multipartData.uploadId, parts }),
+  });
+  const multipartCompleted = (await multipartComplete.json()) as {
+    size?: number | null;
+  };
+
+  if (multipartComplete.status === 200 && multipartCompleted.size === 14) {
+    logPass("Multipart completion assembles the parts");
+  } else {
+    logFail(
+      "Multipart completion assembles the parts",
+      '200 with "size":14',
+      `${String(multipartComplete.status)} ${JSON.stringify(multipartCompleted)}`,
+    );
+  }
+
+  // Nothing uploaded
+  const notUploaded = await fetch(`${AUTH_BASE_URL}/v1/files/70006/complete`, {
+    method: "POST",
+    headers: uploaderHeaders,
+    body: JSON.stringify({}),
+  });
+
+  if (notUploaded.status === 404) {
+    logPass("Completion returns 404 when nothing was uploaded");
+  } else {
+    logFail(
+      "Completion returns 404 when nothing was uploaded",
+      "404",
+      String(notUploaded.status),
+    );
+  }
+
+  const invalid = await fetch(`${AUTH_BASE_URL}/v1/files`, {
+    method: "POST",
+    headers: uploaderHeaders,
+    body: JSON.stringify({ file_id: 100 }),
+  });
+
+  if (invalid.status === 400) {
+    logPass("Upload rejects file_id < 10000");
+  } else {
+    logFail("Upload rejects file_id < 10000", "400", String(invalid.status));
+  }
+}
+
+async function testRequestId(): Promise<void> {
+  logSection("Request ID Tracking");
+
+  // Check that custom request ID is respected
+  const customId = "test-request-id-12345";
+  const response1 = await fetch(`${BASE_URL}/`, {
+    headers: { "X-Request-ID": customId },
+  });
+
+  if (response1.headers.get("x-request-id") === customId) {
+    logPass("Custom X-Request-ID is respected");
+  } else {
+    logFail(
+      "Custom X-Request-ID is respected",
+      customId,
+      response1.headers.get("x-request-id") ?? "not found",
+    );
+  }
+
+  // Check that new request ID is generated when not provided
+  const response2 = await fetch(`${BASE_URL}/`);
+  const generatedId = response2.headers.get("x-request-id");
+  const uuidRegex =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+  if (generatedId && uuidRegex.test(generatedId)) {
+    logPass("Auto-generated X-Request-ID is valid UUID");
+  } else {
+    logFail(
+      "Auto-generated X-Request-ID is valid UUID",
+      "UUID format",
+      generatedId ?? "not found",
+    );
+  }
+}
+
+async function testContentType(): Promise<void> {
+  logSection("Content-Type Validation");
+
+  // POST with invalid JSON should fail
+  const response = await fetch(`${BASE_URL}/v1/download/check`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: "not valid json",
+  });
+
+  // 400 (bad request) or 500 (caught by error handler) are both acceptable
+  if (response.status === 400 || response.status === 500) {
+    logPass("POST with invalid JSON is rejected");
+  } else {
+    logFail(
+      "POST with invalid JSON is rejected",
+      "400 or 500",
+      String(response.status),
+    );
+  }
+
+  // POST with wrong content type should be handled
+  const response2 = await fetch(`${BASE_URL}/v1/download/check`, {
+    method: "POST",
+    headers: { "Content-Type": "text/plain" },
+    body: JSON.stringify({ file_id: 70000 }),
+  });
+
+  // Either rejected (400/415) or handled gracefully
+  if (
+    response2.status === 400 ||
+    response2.status === 415 ||
+    response2.status === 200
+  ) {
+    logPass("POST with text/plain Content-Type is handled");
+  } else {
+    logFail(
+      "POST with text/plain Content-Type is handled",
+      "400, 415, or 200",
+      String(response2.status),
+    );
+  }
+}
+
+async function testMethodNotAllowed(): Promise<void> {
+  logSection("Method Validation");
+
+  // DELETE on root should return 404 or 405
+  const response1 = await fetch(`${BASE_URL}/`, { method: "DELETE" });
+
+  if (response1.status === 404 || response1.status === 405) {
+    logPass("DELETE on root returns 404/405");
+  } else {
+    logFail(
+      "DELETE on root returns 404/405",
+      "404 or 405",
+      String(response1.status),
+    );
+  }
+
+  // GET on POST-only endpoint
+  const response2 = await fetch(`${BASE_URL}/v1/download/check`);
+
+  if (response2.status === 404 || response2.status === 405) {
+    logPass("GET on POST-only endpoint returns 404/405");
+  } else {
+    logFail(
+      "GET on POST-only endpoint returns 404/405",
+      "404 or 405",
+      String(response2.status),
+    );
+  }
+}
+
+async function testRateLimiting(): Promise<void> {
+  logSection("Rate Limiting");
+
+  // Get initial remaining count
+  const response1 = await fetch(`${BASE_URL}/`);
+  const remaining = response1.headers.get("ratelimit-remaining");
+
+  if (remaining && parseInt(remaining, 10) > 0) {
+    logPass("Rate limit remaining is tracked");
+  } else {
+    logFail("Rate limit remaining is tracked", "> 0", remaining ?? "not found");
+  }
+
+  // Make another request and check remaining continues to be tracked
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  const response2 = await fetch(`${BASE_URL}/`);
+  const newRemaining = response2.headers.get("ratelimit-remaining");
+
+  if (newRemaining) {
+    logPass("Rate limit remaining continues to be tracked");
+  } else {
+    logFail(
+      "Rate limit remaining continues to be tracked",
+      "number",
+      newRemaining ?? "not found",
+    );
+  }
+}
+
+// Client IPs and route limits: the auth server trusts this machine as a
+// proxy and allows 3 requests per client to /
+async function testDailyByteBudget(): Promise<void> {
+  logSection("Daily Byte Budget");
+
+  // The auth server gives "budget" room for one file but not ten
+  const headers = apiKeyHeader("budget");
+  const initiate = await fetch(`${AUTH_BASE_URL}/v1/download/initiate`, {
+    method: "POST",
+    headers: { ...headers, "Content-Type": "application/json" },
+    body: JSON.stringify({
+      file_ids: Array.from({ length: 10 }, (_, i) => 70000 + i * 7),
+    }),
+  });
+  const { jobId = "" } = (await initiate.json()) as { jobId?: string };
+
+  let data: {
+    status?: string;
+    files?: { status?: string; size?: number | null; message?: string }[];
+  } = {};
+  for (let i = 0; i < 10; i++) {
+    const statusResponse = await fetch(
+      `${AUTH_BASE_URL}/v1/download/status/${jobId}?wait=5`,
+      { headers },
+    );
+    data = (await statusResponse.json()) as typeof data;
+    if (data.status !== "queued" && data.status !== "processing") break;
+  }
+
+  const files = data.files ?? [];
+  const firstOver = files.findIndex((f) => f.message?.includes("budget"));
+  if (
+    data.status === "partially_completed" &&
+    firstOver > 0 &&
+    files.slice(0, firstOver).every((f) => f.status === "completed") &&
+    files.slice(firstOver).every((f) => f.status === "failed")
+  ) {
+    logPass(
+      "A job that would cross the budget stops at the file that does not fit",
+    );
+  } else {
+    logFail(
+      "A job that would cross the budget stops at the file that does not fit",
+      "partially_completed, completed files then budget failures",
+      JSON.stringify(data),
+    );
+  }
+
+  const usage = await fetch(`${AUTH_BASE_URL}/v1/usage`, { headers });
+  const { dailyBytes } = (await usage.json()) as {
+    dailyBytes?: { used?: number; limit?: number | null };
+  };
+  const completedBytes = files
+    .filter((f) => f.status === "completed")
+    .reduce((sum, f) => sum + (f.size ?? 0), 0);
+  if (
+    dailyBytes?.used === completedBytes &&
+    completedBytes <= (dailyBytes.limit ?? 0)
+  ) {
+    logPass("Only the files made available count against the budget");
+  } else {
+    logFail(
+      "Only the files made available count against the budget",
+      `used ${String(completedBytes)} within the limit`,
+      JSON.stringify(dailyBytes),
+    );
+  }
+}
+
+async function testClientRateLimits(): Promise<void> {
+  logSection("Client IPs and Route Limits");
+
+  const hit = (baseUrl: string, forwardedFor: string, path = "/") =>
+    fetch(`${baseUrl}${path}`, {
+      headers: { "X-Forwarded-For": forwardedFor },
+    });
+
+  const first = await hit(AUTH_BASE_URL, "203.0.113.10");
+  const limit = first.headers.get("ratelimit-limit");
+  const remaining = first.headers.get("ratelimit-remaining");
+  if (limit === "3" && remaining === "2") {
+    logPass("RATE_LIMIT_ROUTES sets the route's limit");
+  } else {
+    logFail(
+      "RATE_LIMIT_ROUTES sets the route's limit",
+      "limit 3, remaining 2",
+      `limit ${limit ?? "none"}, remaining ${remaining ?? "none"}`,
+    );
+  }
+
+  await hit(AUTH_BASE_URL, "203.0.113.10");
+  await hit(AUTH_BASE_URL, "203.0.113.10");
+  const limited = await hit(AUTH_BASE_URL, "203.0.113.10");
+  if (limited.status === 429) {
+    logPass("Requests beyond the route limit get 429");
+  } else {
+    logFail(
+      "Requests beyond the route limit get 429",
+      "429",
+      String(limited.status),
+    );
+  }
+
+  const otherClient = await hit(AUTH_BASE_URL, "203.0.113.11");
+  if (otherClient.status === 200) {
+    logPass("Each client behind a trusted proxy has its own counter");
+  } else {
+    logFail(
+      "Each client behind a trusted proxy has its own counter",
+      "200",
+      String(otherClient.status),
+    );
+  }
+
+  const spoofed = await hit(AUTH_BASE_URL, "198.51.100.7, 203.0.113.10");
+  if (spoofed.status === 429) {
+    logPass("Addresses a client prepends to X-Forwarded-For are ignored");
+  } else {
+    logFail(
+      "Addresses a client prepends to X-Forwarded-For are ignored",
+      "429",
+      String(spoofed.status),
+    );
+  }
+
+  const viaProxy = await hit(AUTH_BASE_URL, "203.0.113.12, 127.0.0.1");
+  const viaProxyRemaining = viaProxy.headers.get("ratelimit-remaining");
+  if (viaProxy.status === 200 && viaProxyRemaining === "2") {
+    logPass("Trusted proxies in X-Forwarded-For are skipped");
+  } else {
+    logFail(
+      "Trusted proxies in X-Forwarded-For are skipped",
+      "200 with remaining 2",
+      `${String(viaProxy.status)} with remaining ${viaProxyRemaining ?? "none"}`,
+    );
+  }
+
+  const otherRoute = await hit(AUTH_BASE_URL, "203.0.113.10", "/health");
+  const otherRouteLimit = otherRoute.headers.get("ratelimit-limit");
+  if (otherRoute.status === 200 && otherRouteLimit !== "3") {
+    logPass("Other routes keep the default limit and their own counter");
+  } else {
+    logFail(
+      "Other routes keep the default limit and their own counter",
+      "200 with the default limit",
+      `${String(otherRoute.status)} with limit ${otherRouteLimit ?? "none"}`,
+    );
+  }
+
+  // The main server trusts no proxies, so the header changes nothing
+  const before = await hit(BASE_URL, "203.0.113.20");
+  const after = await hit(BASE_URL, "203.0.113.21");
+  const beforeRemaining = Number(before.headers.get("ratelimit-remaining"));
+  const afterRemaining = Number(after.headers.get("ratelimit-remaining"));
+  if (afterRemaining === beforeRemaining - 1) {
+    logPass("X-Forwarded-For is ignored without TRUSTED_PROXIES");
+  } else {
+    logFail(
+      "X-Forwarded-For is ignored without TRUSTED_PROXIES",
+      String(beforeRemaining - 1),
+      String(afterRemaining),
+    );
+  }
+}
+
+async function testServiceRoles(): Promise<void> {
+  logSection("Split Service Roles");
+
+  const roles = await Promise.all(
+    [ROLE_API_URL, ROLE_WORKER_URL].map(async (url) => {
+      const response = await fetch(`${url}/health`);
+      return ((await response.json()) as { role?: string }).role;
+    }),
+  );
+  if (roles.join(",") === "api,worker") {
+    logPass("Each server reports its role in /health");
+  } else {
+    logFail(
+      "Each server reports its role in /health",
+      "api,worker",
+      roles.join(","),
+    );
+  }
+
+  const metrics = await fetch(`${ROLE_WORKER_URL}/metrics`);
+  if (metrics.status === 200) {
+    logPass("Worker serves /metrics");
+  } else {
+    logFail("Worker serves /metrics", "200", String(metrics.status));
+  }
+
+  const workerInitiate = await fetch(
+    `${ROLE_WORKER_URL}/v1/download/initiate`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ file_ids: [70000] }),
+    },
+  );
+  const workerBody = (await workerInitiate.json()) as { message?: string };
+  if (
+    workerInitiate.status === 404 &&
+    workerBody.message?.includes("SERVICE_ROLE=worker")
+  ) {
+    logPass("Worker serves no API routes");
+  } else {
+    logFail(
+      "Worker serves no API routes",
+      "404 naming SERVICE_ROLE=worker",
+      `${String(workerInitiate.status)} ${JSON.stringify(workerBody)}`,
+    );
+  }
+
+  // The api server runs no worker, so only the worker can finish the job
+  const initiate = await fetch(`${ROLE_API_URL}/v1/download/initiate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ file_ids: [70000, 70007], bundle: true }),
+  });
+  const { jobId = "" } = (await initiate.json()) as { jobId?: string };
+  let data: {
+    status?: string;
+    downloadUrl?: string | null;
+    sha256?: string | null;
+  } = {};
+  for (let i = 0; i < 10; i++) {
+    const statusResponse = await fetch(
+      `${ROLE_API_URL}/v1/download/status/${jobId}?wait=5`,
+    );
+    data = (await statusResponse.json()) as typeof data;
+    if (data.status === "completed" || data.status === "failed") break;
+  }
+  if (data.status === "completed") {
+    logPass("A job queued on the api server completes on the worker");
+  } else {
+    logFail(
+      "A job queued on the api server completes on the worker",
+      "completed",
+      String(data.status),
+    );
+  }
+
+  // The worker wrote the bundle; the api server serves it
+  const download = data.downloadUrl?.startsWith(ROLE_API_URL)
+    ? await fetch(data.downloadUrl)
+    : null;
+  const sha256 =
+    download?.status === 200
+      ? createHash("sha256")
+          .update(Buffer.from(await download.arrayBuffer()))
+          .digest("hex")
+      : null;
+  if (sha256 !== null && sha256 === data.sha256) {
+    logPass("The worker's bundle downloads through the api server");
+  } else {
+    logFail(
+      "The worker's bundle downloads through the api server",
+      `a download from ${ROLE_API_URL} matching ${String(data.sha256)}`,
+      `${String(data.downloadUrl)} ${String(download?.status)} ${String(sha256)}`,
+    );
+  }
+}
+
+function printSummary(): void {
+  console.log();
+  console.log(`${colors.yellow}==============================${colors.reset}`);
+  console.log(`${colors.yellow}        TEST SUMMARY          ${colors.reset}`);
+  console.log(`${colors.yellow}==============================${colors.reset}`);
+  console.log(`Total:  ${results.total}`);
+  console.log(`${colors.green}Passed: ${results.passed}${colors.reset}`);
+  console.log(`${colors.red}Failed: ${results.failed}${colors.reset}`);
+  console.log();
+
+  if (results.failed === 0) {
+    console.log(`${colors.green}All tests passed!${colors.reset}`);
+  } else {
+    console.log(`${colors.red}Some tests failed.${colors.reset}`);
+  }
+}
+
+async function main(): Promise<void> {
+  console.log("E2E Tests for Delineate Hackathon Challenge API");
+  console.log(`Base URL: ${BASE_URL}`);
+  console.log();
+
+  await waitForServer();
+
+  await testRoot();
+  await testHealth();
+  await testHealthProbes();
+  await testMetrics();
+  await testSecurityHeaders();
+  await testDownloadInitiate();
+  await testIdempotency();
+  await testDownloadStatus();
+  await testJobList();
+  await testUsage();
+  await testStatusCaching();
+  await testJobEvents();
+  await testJobWebSocket();
+  await testJobCancel();
+  await testWebhookDeliveries();
   await testDownloadCheck();
+  await testDownloadStart();
+  await testJobIntegrity();
+  await testFileContent();
+  await testFileMetadata();
   await testRequestId();
   await testContentType();
   await testMethodNotAllowed();
   await testRateLimiting();
+  await testJournalReplay();
+  await testCancelledJobUsage();
+
+  if (AUTH_BASE_URL) {
+    console.log();
+    console.log(`Auth Base URL: ${AUTH_BASE_URL}`);
+    await testAuthentication();
+    await testAuthenticatedWebSocket();
+    await testWebhookTargets();
+    await testUploadAccess();
+    await testFileUpload();
+    await testDailyByteBudget();
+    await testClientRateLimits();
+  } else {
+    console.log();
+    console.log("AUTH_BASE_URL not set - skipping the tests that need auth");
+  }
+
+  if (ROLE_API_URL && ROLE_WORKER_URL) {
+    console.log();
+    console.log(`Role URLs: api ${ROLE_API_URL}, worker ${ROLE_WORKER_URL}`);
+    await testServiceRoles();
+  } else {
+    console.log();
+    console.log(
+      "ROLE_API_URL and ROLE_WORKER_URL not set - skipping the split role tests",
+    );
+  }
 
   printSummary();
 
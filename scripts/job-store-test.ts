@@ -0,0 +1,350 @@
+/**
+ * JobStore conformance tests - every implementation must pass the same suite
+ * Usage: node --experimental-transform-types scripts/job-store-test.ts
+ * The Redis store is tested too when REDIS_URL is set.
+ */
+
+import { Redis } from "ioredis";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  createMemoryJobStore,
+  createRedisJobStore,
+  createSqliteJobStore,
+} from "../src/job-store.ts";
+import type { JobStore } from "../src/job-store.ts";
+
+// ANSI Colors
+const colors = {
+  red: "\x1b[31m",
+  green: "\x1b[32m",
+  yellow: "\x1b[33m",
+  reset: "\x1b[0m",
+};
+
+interface TestResult {
+  passed: number;
+  failed: number;
+  total: number;
+}
+
+const results: TestResult = { passed: 0, failed: 0, total: 0 };
+
+function logPass(message: string): void {
+  console.log(`${colors.green}✓ PASS${colors.reset}: ${message}`);
+  results.passed++;
+  results.total++;
+}
+
+function logFail(message: string, expected: string, got: string): void {
+  console.log(`${colors.red}✗ FAIL${colors.reset}: ${message}`);
+  console.log(`  ${colors.yellow}Expected${colors.reset}: ${expected}`);
+  console.log(`  ${colors.yellow}Got${colors.reset}: ${got}`);
+  results.failed++;
+  results.total++;
+}
+
+function logSection(title: string): void {
+  console.log();
+  console.log(`${colors.yellow}=== ${title} ===${colors.reset}`);
+}
+
+// Compare as JSON, which is also how the stores serialize records
+function expectEqual(message: string, got: unknown, expected: unknown): void {
+  const gotJson = JSON.stringify(got);
+  const expectedJson = JSON.stringify(expected);
+  if (gotJson === expectedJson) {
+    logPass(message);
+  } else {
+    logFail(message, expectedJson, gotJson);
+  }
+}
+
+interface TestJob {
+  status: string;
+  owner: string | null;
+  createdAt: string;
+  progress: number;
+}
+
+type StoreFactory = (ttlMs: number) => Promise<JobStore<TestJob>>;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Owners are unique per run so a shared Redis does not leak into results
+const makeJob = (
+  owner: string | null,
+  createdAt: number,
+  status = "queued",
+): TestJob => ({
+  status,
+  owner,
+  createdAt: new Date(createdAt).toISOString(),
+  progress: 0,
+});
+
+async function testConformance(
+  name: string,
+  createStore: StoreFactory,
+): Promise<void> {
+  logSection(`${name}: conformance`);
+  const store = await createStore(60_000);
+
+  try {
+    expectEqual(
+      "get returns null for an unknown job",
+      await store.get(crypto.randomUUID()),
+      null,
+    );
+
+    const jobId = crypto.randomUUID();
+    const job = makeJob(null, Date.now());
+    await store.set(jobId, job);
+    expectEqual("get returns the stored record", await store.get(jobId), job);
+
+    const updated = { ...job, status: "processing", progress: 50 };
+    await store.set(jobId, updated);
+    expectEqual("set replaces the record", await store.get(jobId), updated);
+
+    // Compare-and-set: a finished job is never overwritten
+    const finalStatuses = ["completed", "cancelled"];
+    const progressed = { ...updated, progress: 75 };
+    expectEqual(
+      "setUnlessStatus writes over other statuses",
+      await store.setUnlessStatus(jobId, progressed, finalStatuses),
+      true,
+    );
+    expectEqual(
+      "setUnlessStatus stores the record",
+      await store.get(jobId),
+      progressed,
+    );
+    const cancelled = { ...progressed, status: "cancelled" };
+    await store.set(jobId, cancelled);
+    expectEqual(
+      "setUnlessStatus skips a record with a listed status",
+      await store.setUnlessStatus(jobId, updated, finalStatuses),
+      false,
+    );
+    expectEqual(
+      "a skipped write leaves the record alone",
+      await store.get(jobId),
+      cancelled,
+    );
+    const newId = crypto.randomUUID();
+    expectEqual(
+      "setUnlessStatus creates a missing record",
+      await store.setUnlessStatus(newId, job, finalStatuses),
+      true,
+    );
+    await store.set(jobId, updated);
+
+    const missingId = crypto.randomUUID();
+    expectEqual(
+      "getMany lines results up with the requested ids",
+      await store.getMany([missingId, jobId]),
+      [null, updated],
+    );
+    expectEqual("getMany accepts an empty list", await store.getMany([]), []);
+
+    // Listing: newest first, ties broken by jobId descending, per owner
+    const owner = `owner-${crypto.randomUUID()}`;
+    const base = Date.now() - 10_000;
+    const ids = ["a", "b", "c", "d"].map(
+      (suffix) => `${crypto.randomUUID().slice(0, 8)}-${suffix}`,
+    );
+    const [oldest, tieLow, tieHigh, newest] = [
+      ids[0],
+      ...[ids[1], ids[2]].sort(),
+      ids[3],
+    ];
+    const created = [
+      [oldest, base],
+      [tieLow, base + 1000],
+      [tieHigh, base + 1000],
+      [newest, base + 2000],
+    ] as const;
+    for (const [id, createdAt] of created) {
+      const record = makeJob(owner, createdAt);
+      await store.set(id, record);
+      await store.addToIndex(id, record);
+    }
+    const otherId = crypto.randomUUID();
+    const otherJob = makeJob(`other-${crypto.randomUUID()}`, base + 1500);
+    await store.set(otherId, otherJob);
+    await store.addToIndex(otherId, otherJob);
+
+    const all = await store.list(owner, null, 0, Number.MAX_SAFE_INTEGER, 10);
+    expectEqual(
+      "list orders newest first with ties by jobId descending",
+      all.map((entry) => entry.jobId),
+      [newest, tieHigh, tieLow, oldest],
+    );
+    expectEqual(
+      "list reports createdAt in ms",
+      all.map((entry) => entry.createdAt),
+      [base + 2000, base + 1000, base + 1000, base],
+    );
+
+    const firstPage = await store.list(
+      owner,
+      null,
+      0,
+      Number.MAX_SAFE_INTEGER,
+      2,
+    );
+    const secondPage = await store.list(
+      owner,
+      firstPage[1],
+      0,
+      Number.MAX_SAFE_INTEGER,
+      2,
+    );
+    expectEqual(
+      "list continues after a cursor inside a tie",
+      [...firstPage, ...secondPage].map((entry) => entry.jobId),
+      [newest, tieHigh, tieLow, oldest],
+    );
+
+    const ranged = await store.list(owner, null, base + 500, base + 1500, 10);
+    expectEqual(
+      "list filters by createdAt range",
+      ranged.map((entry) => entry.jobId),
+      [tieHigh, tieLow],
+    );
+  } finally {
+    await store.close();
+  }
+
+  logSection(`${name}: expiry`);
+  const shortLived = await createStore(300);
+  try {
+    const jobId = crypto.randomUUID();
+    const owner = `owner-${crypto.randomUUID()}`;
+    const job = makeJob(owner, Date.now());
+    await shortLived.set(jobId, job);
+    await shortLived.addToIndex(jobId, job);
+    await sleep(600);
+    expectEqual(
+      "records expire after the TTL",
+      await shortLived.get(jobId),
+      null,
+    );
+    const listed = await shortLived.list(
+      owner,
+      null,
+      0,
+      Number.MAX_SAFE_INTEGER,
+      10,
+    );
+    expectEqual(
+      "list skips expired records",
+      listed.filter((entry) => entry.jobId === jobId),
+      [],
+    );
+  } finally {
+    await shortLived.close();
+  }
+}
+
+async function testMemoryEviction(): Promise<void> {
+  logSection("memory: LRU eviction");
+  const store = createMemoryJobStore<TestJob>({
+    ttlMs: 60_000,
+    maxEntries: 2,
+  });
+  await store.set("a", makeJob(null, Date.now()));
+  await store.set("b", makeJob(null, Date.now()));
+  await store.get("a"); // "b" is now the least recently used
+  await store.set("c", makeJob(null, Date.now()));
+  expectEqual(
+    "the least recently used record is evicted beyond maxEntries",
+    (await store.getMany(["a", "b", "c"])).map((job) => job !== null),
+    [true, false, true],
+  );
+}
+
+async function testSqlitePersistence(filename: string): Promise<void> {
+  logSection("sqlite: persistence");
+  const jobId = crypto.randomUUID();
+  const job = makeJob(null, Date.now(), "completed");
+  const first = await createSqliteJobStore<TestJob>({
+    filename,
+    ttlMs: 60_000,
+  });
+  await first.set(jobId, job);
+  await first.close();
+
+  const reopened = await createSqliteJobStore<TestJob>({
+    filename,
+    ttlMs: 60_000,
+  });
+  expectEqual(
+    "records survive reopening the database",
+    await reopened.get(jobId),
+    job,
+  );
+  await reopened.close();
+}
+
+function printSummary(): void {
+  console.log();
+  console.log(`${colors.yellow}==============================${colors.reset}`);
+  console.log(`${colors.yellow}        TEST SUMMARY          ${colors.reset}`);
+  console.log(`${colors.yellow}==============================${colors.reset}`);
+  console.log(`Total:  ${results.total}`);
+  console.log(`${colors.green}Passed: ${results.passed}${colors.reset}`);
+  console.log(`${colors.red}Failed: ${results.failed}${colors.reset}`);
+  console.log();
+
+  if (results.failed === 0) {
+    console.log(`${colors.green}All tests passed!${colors.reset}`);
+  } else {
+    console.log(`${colors.red}Some tests failed.${colors.reset}`);
+  }
+}
+
+async function main(): Promise<void> {
+  console.log("JobStore Conformance Tests");
+
+  const tempDir = await mkdtemp(path.join(tmpdir(), "job-store-test-"));
+  let redis: Redis | null = null;
+  try {
+    await testConformance("memory", (ttlMs) =>
+      Promise.resolve(createMemoryJobStore({ ttlMs, maxEntries: 1000 })),
+    );
+    await testMemoryEviction();
+
+    await testConformance("sqlite", (ttlMs) =>
+      createSqliteJobStore({
+        filename: path.join(tempDir, `${crypto.randomUUID()}.sqlite`),
+        ttlMs,
+      }),
+    );
+    await testSqlitePersistence(path.join(tempDir, "persistent.sqlite"));
+
+    if (process.env.REDIS_URL) {
+      const client = new Redis(process.env.REDIS_URL);
+      redis = client;
+      await testConformance("redis", (ttlMs) =>
+        Promise.resolve(createRedisJobStore(client, { ttlMs })),
+      );
+    } else {
+      console.log();
+      console.log("REDIS_URL not set - skipping the Redis store");
+    }
+  } finally {
+    await redis?.quit();
+    await rm(tempDir, { recursive: true, force: true });
+  }
+
+  printSummary();
+
+  process.exit(results.failed > 0 ? 1 : 0);
+}
+
+main().catch((err: unknown) => {
+  console.error("Test runner failed:", err);
+  process.exit(1);
+});
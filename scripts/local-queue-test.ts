@@ -0,0 +1,380 @@
+/**
+ * LocalQueue tests - ordering, concurrency, retries and the restart journal
+ * Usage: node --experimental-transform-types scripts/local-queue-test.ts
+ */
+
+import { once } from "node:events";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { LocalQueue } from "../src/local-queue.ts";
+import type { LocalJob } from "../src/local-queue.ts";
+
+// ANSI Colors
+const colors = {
+  red: "\x1b[31m",
+  green: "\x1b[32m",
+  yellow: "\x1b[33m",
+  reset: "\x1b[0m",
+};
+
+interface TestResult {
+  passed: number;
+  failed: number;
+  total: number;
+}
+
+const results: TestResult = { passed: 0, failed: 0, total: 0 };
+
+function logPass(message: string): void {
+  console.log(`${colors.green}✓ PASS${colors.reset}: ${message}`);
+  results.passed++;
+  results.total++;
+}
+
+function logFail(message: string, expected: string, got: string): void {
+  console.log(`${colors.red}✗ FAIL${colors.reset}: ${message}`);
+  console.log(`  ${colors.yellow}Expected${colors.reset}: ${expected}`);
+  console.log(`  ${colors.yellow}Got${colors.reset}: ${got}`);
+  results.failed++;
+  results.total++;
+}
+
+function logSection(title: string): void {
+  console.log();
+  console.log(`${colors.yellow}=== ${title} ===${colors.reset}`);
+}
+
+function expectEqual(message: string, got: unknown, expected: unknown): void {
+  const gotJson = JSON.stringify(got);
+  const expectedJson = JSON.stringify(expected);
+  if (gotJson === expectedJson) {
+    logPass(message);
+  } else {
+    logFail(message, expectedJson, gotJson);
+  }
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// The journal as a list of entries, as a restart would read it
+async function readJournal(journalPath: string): Promise<unknown[]> {
+  const contents = await readFile(journalPath, "utf8");
+  return contents
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as unknown);
+}
+
+async function testOrdering(): Promise<void> {
+  logSection("FIFO Order");
+
+  const order: string[] = [];
+  const queue = new LocalQueue<string>(
+    "test",
+    (job) => {
+      order.push(job.data);
+      return sleep(5);
+    },
+    { concurrency: 1 },
+  );
+  const drained = once(queue, "drained");
+  for (const name of ["a", "b", "c", "d"]) await queue.add("job", name);
+  await drained;
+  expectEqual("jobs run in the order they were added", order, [
+    "a",
+    "b",
+    "c",
+    "d",
+  ]);
+
+  const first = await queue.add("job", "x", { jobId: "same" });
+  const second = await queue.add("job", "y", { jobId: "same" });
+  expectEqual(
+    "adding an existing jobId returns that job",
+    second === first,
+    true,
+  );
+  await queue.close();
+}
+
+async function testConcurrency(): Promise<void> {
+  logSection("Concurrency Limit");
+
+  let active = 0;
+  let maxActive = 0;
+  const queue = new LocalQueue<number>(
+    "test",
+    async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await sleep(20);
+      active--;
+    },
+    { concurrency: 2 },
+  );
+  const drained = once(queue, "drained");
+  for (let i = 0; i < 6; i++) await queue.add("job", i);
+  expectEqual(
+    "jobs beyond the limit wait",
+    await queue.getJobCounts("active", "waiting"),
+    { active: 2, waiting: 4 },
+  );
+  await drained;
+  expectEqual("never more than `concurrency` jobs at once", maxActive, 2);
+  expectEqual(
+    "every job completes",
+    await queue.getJobCounts("completed", "failed"),
+    { completed: 6, failed: 0 },
+  );
+  await queue.close();
+}
+
+async function testRetries(): Promise<void> {
+  logSection("Retries and Backoff");
+
+  const delays: number[] = [];
+  const started: number[] = [];
+  const queue = new LocalQueue<string>(
+    "test",
+    (job) => {
+      started.push(Date.now());
+      if (job.data === "flaky" && job.attemptsMade < 2) {
+        return Promise.reject(new Error("Transient failure"));
+      }
+      if (job.data === "broken") {
+        return Promise.reject(new Error("Permanent failure"));
+      }
+      return Promise.resolve();
+    },
+    {
+      concurrency: 1,
+      backoffStrategy: (attemptsMade) => {
+        delays.push(attemptsMade);
+        return attemptsMade * 30;
+      },
+    },
+  );
+
+  const failed: string[] = [];
+  queue.on("failed", (job: LocalJob<string>) => {
+    failed.push(`${job.data}:${String(job.attemptsMade)}`);
+  });
+
+  let drained = once(queue, "drained");
+  const flaky = await queue.add("job", "flaky", { attempts: 3 });
+  await sleep(5);
+  expectEqual("a failed attempt is delayed", await flaky.getState(), "delayed");
+  await drained;
+  expectEqual("retried until it succeeds", flaky.attemptsMade, 3);
+  expectEqual("the backoff strategy gets the attempts made", delays, [1, 2]);
+  const waited = started[2] - started[0];
+  expectEqual("retries wait for the backoff", waited >= 30 + 60, true);
+
+  drained = once(queue, "drained");
+  const broken = await queue.add("job", "broken", { attempts: 2 });
+  await drained;
+  expectEqual("gives up after the last attempt", broken.attemptsMade, 2);
+  expectEqual("every failed attempt is reported", failed, [
+    "flaky:1",
+    "flaky:2",
+    "broken:1",
+    "broken:2",
+  ]);
+  expectEqual(
+    "counts record one completed and one failed job",
+    await queue.getJobCounts("completed", "failed"),
+    { completed: 1, failed: 1 },
+  );
+  await queue.close();
+}
+
+async function testRemove(): Promise<void> {
+  logSection("Removing Jobs");
+
+  let release = () => {};
+  const queue = new LocalQueue<string>(
+    "test",
+    () =>
+      new Promise<void>((resolve) => {
+        release = resolve;
+      }),
+    { concurrency: 1 },
+  );
+  const active = await queue.add("job", "active");
+  const waiting = await queue.add("job", "waiting");
+
+  const removal = active.remove().then(
+    () => "resolved",
+    (err: unknown) => (err instanceof Error ? "rejected" : "threw"),
+  );
+  expectEqual("removing an active job rejects", await removal, "rejected");
+
+  await waiting.remove();
+  expectEqual(
+    "a waiting job can be removed",
+    await waiting.getState(),
+    "unknown",
+  );
+
+  const drained = once(queue, "drained");
+  release();
+  await drained;
+  expectEqual(
+    "the removed job never runs",
+    await queue.getJobCounts("completed"),
+    { completed: 1 },
+  );
+  await queue.close();
+}
+
+async function testJournal(tempDir: string): Promise<void> {
+  logSection("Journal");
+
+  const journalPath = path.join(tempDir, "nested", "queue.journal");
+  const never = () => new Promise<void>(() => {});
+
+  // A job that failed once and waits out a long backoff when the queue stops
+  const first = new LocalQueue<string>(
+    "test",
+    (job) =>
+      job.data === "retry"
+        ? Promise.reject(new Error("Transient failure"))
+        : Promise.resolve(),
+    { concurrency: 1, journalPath, backoffStrategy: () => 60_000 },
+  );
+  const failed = once(first, "failed");
+  await first.add("job", "retry", { jobId: "retry", attempts: 3 });
+  await failed;
+  await first.close();
+
+  const resumed: string[] = [];
+  const second = new LocalQueue<string>(
+    "test",
+    (job) => {
+      resumed.push(`${job.id}:${String(job.attemptsMade)}`);
+      return Promise.resolve();
+    },
+    { concurrency: 1, journalPath },
+  );
+  const drained = once(second, "drained");
+  await drained;
+  expectEqual(
+    "unfinished jobs resume with their attempts after a restart",
+    resumed,
+    ["retry:1"],
+  );
+  await second.close();
+  expectEqual(
+    "the journal is emptied once nothing is left",
+    await readFile(journalPath, "utf8"),
+    "",
+  );
+
+  // What a crash mid-write leaves behind
+  const entry = (id: string) => ({
+    op: "add",
+    id,
+    name: "job",
+    data: id,
+    opts: { attempts: 3 },
+    timestamp: 1,
+  });
+  await writeFile(
+    journalPath,
+    [
+      JSON.stringify(entry("done")),
+      JSON.stringify(entry("b")),
+      JSON.stringify({ op: "attempt", id: "b", attemptsMade: 2 }),
+      JSON.stringify(entry("c")),
+      JSON.stringify({ op: "done", id: "done" }),
+      JSON.stringify(entry("torn")).slice(0, 30),
+    ].join("\n"),
+  );
+
+  const third = new LocalQueue<string>("test", never, {
+    concurrency: 1,
+    journalPath,
+  });
+  const job = await third.getJob("b");
+  expectEqual("replay keeps the attempts made", job?.attemptsMade, 2);
+  expectEqual(
+    "a torn last line is skipped",
+    await third.getJob("torn"),
+    undefined,
+  );
+  expectEqual(
+    "replayed jobs keep their order",
+    await third.getJobCounts("active", "waiting"),
+    { active: 1, waiting: 1 },
+  );
+  expectEqual(
+    "the first replayed job runs first",
+    await job?.getState(),
+    "active",
+  );
+
+  const added = await third.add("job", "d", { jobId: "d" });
+  // Wait for the journal without closing; the active job never finishes
+  await sleep(20);
+  expectEqual(
+    "the journal is compacted to the unfinished jobs",
+    await readJournal(journalPath),
+    [
+      entry("b"),
+      { op: "attempt", id: "b", attemptsMade: 2 },
+      entry("c"),
+      {
+        op: "add",
+        id: "d",
+        name: "job",
+        data: "d",
+        opts: { jobId: "d" },
+        timestamp: added.timestamp,
+      },
+    ],
+  );
+}
+
+function printSummary(): void {
+  console.log();
+  console.log(`${colors.yellow}==============================${colors.reset}`);
+  console.log(`${colors.yellow}        TEST SUMMARY          ${colors.reset}`);
+  console.log(`${colors.yellow}==============================${colors.reset}`);
+  console.log(`Total:  ${results.total}`);
+  console.log(`${colors.green}Passed: ${results.passed}${colors.reset}`);
+  console.log(`${colors.red}Failed: ${results.failed}${colors.reset}`);
+  console.log();
+
+  if (results.failed === 0) {
+    console.log(`${colors.green}All tests passed!${colors.reset}`);
+  } else {
+    console.log(`${colors.red}Some tests failed.${colors.reset}`);
+  }
+}
+
+async function main(): Promise<void> {
+  console.log("LocalQueue Tests");
+
+  const tempDir = await mkdtemp(path.join(tmpdir(), "local-queue-test-"));
+  try {
+    await testOrdering();
+    await testConcurrency();
+    await testRetries();
+    await testRemove();
+    await testJournal(tempDir);
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+
+  printSummary();
+
+  // The last journal test leaves a job that never finishes
+  process.exit(results.failed > 0 ? 1 : 0);
+}
+
+main().catch((err: unknown) => {
+  console.error("Test runner failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,185 @@
+/**
+ * Redis rate limit store tests - shared counters and the per-replica fallback
+ * Usage: node --experimental-transform-types scripts/rate-limit-test.ts
+ * The shared counters need REDIS_URL; the fallback is tested without it.
+ */
+
+import { Redis } from "ioredis";
+import { createRedisRateLimitStore } from "../src/rate-limit-store.ts";
+
+// ANSI Colors
+const colors = {
+  red: "\x1b[31m",
+  green: "\x1b[32m",
+  yellow: "\x1b[33m",
+  reset: "\x1b[0m",
+};
+
+interface TestResult {
+  passed: number;
+  failed: number;
+  total: number;
+}
+
+const results: TestResult = { passed: 0, failed: 0, total: 0 };
+
+function logPass(message: string): void {
+  console.log(`${colors.green}✓ PASS${colors.reset}: ${message}`);
+  results.passed++;
+  results.total++;
+}
+
+function logFail(message: string, expected: string, got: string): void {
+  console.log(`${colors.red}✗ FAIL${colors.reset}: ${message}`);
+  console.log(`  ${colors.yellow}Expected${colors.reset}: ${expected}`);
+  console.log(`  ${colors.yellow}Got${colors.reset}: ${got}`);
+  results.failed++;
+  results.total++;
+}
+
+function logSection(title: string): void {
+  console.log();
+  console.log(`${colors.yellow}=== ${title} ===${colors.reset}`);
+}
+
+function expectEqual(message: string, got: unknown, expected: unknown): void {
+  const gotJson = JSON.stringify(got);
+  const expectedJson = JSON.stringify(expected);
+  if (gotJson === expectedJson) {
+    logPass(message);
+  } else {
+    logFail(message, expectedJson, gotJson);
+  }
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+type RateLimitStore = ReturnType<typeof createRedisRateLimitStore>;
+
+const hits = async (store: RateLimitStore, key: string) =>
+  (await store.get?.(key))?.totalHits ?? null;
+
+async function testFallback(): Promise<void> {
+  logSection("fallback while Redis is unreachable");
+
+  // Nothing listens on port 1; lazyConnect keeps the client from trying
+  const client = new Redis("redis://127.0.0.1:1", {
+    lazyConnect: true,
+    maxRetriesPerRequest: null,
+  });
+  const store = createRedisRateLimitStore(client, { windowMs: 100 });
+  const key = `test:${crypto.randomUUID()}`;
+
+  const counted: number[] = [];
+  for (let i = 0; i < 3; i++) {
+    counted.push((await store.increment(key)).totalHits);
+  }
+  expectEqual("requests are still counted", counted, [1, 2, 3]);
+  expectEqual("get reads the local counter", await hits(store, key), 3);
+
+  await store.decrement(key);
+  expectEqual("decrement lowers the local counter", await hits(store, key), 2);
+  expectEqual(
+    "keys are counted separately",
+    (await store.increment(`${key}:other`)).totalHits,
+    1,
+  );
+
+  await sleep(150);
+  expectEqual(
+    "a new window starts over",
+    (await store.increment(key)).totalHits,
+    1,
+  );
+  await store.resetKey(key);
+  expectEqual("resetKey drops the counter", await hits(store, key), null);
+  client.disconnect();
+}
+
+async function testShared(url: string): Promise<void> {
+  logSection("shared counters");
+
+  const clients = [new Redis(url), new Redis(url)];
+  try {
+    const [first, second] = clients.map((client) =>
+      createRedisRateLimitStore(client, { windowMs: 1000 }),
+    );
+    const key = `test:${crypto.randomUUID()}`;
+
+    expectEqual(
+      "replicas share one counter",
+      [
+        (await first.increment(key)).totalHits,
+        (await second.increment(key)).totalHits,
+      ],
+      [1, 2],
+    );
+    const { resetTime } = await first.increment(key);
+    const resetInMs = (resetTime?.getTime() ?? 0) - Date.now();
+    expectEqual(
+      "the window runs from the first hit",
+      resetInMs > 0 && resetInMs <= 1000,
+      true,
+    );
+    await second.decrement(key);
+    expectEqual("decrement is shared", await hits(first, key), 2);
+    await first.resetKey(key);
+    expectEqual("resetKey is shared", await hits(second, key), null);
+
+    // INCR fails on a value that is not a number
+    const broken = `test:${crypto.randomUUID()}`;
+    await clients[0].set(`ratelimit:${broken}`, "not-a-number", "PX", 1000);
+    expectEqual(
+      "a failing command falls back to a local counter",
+      (await first.increment(broken)).totalHits,
+      1,
+    );
+    expectEqual(
+      "the store recovers once Redis answers again",
+      (await first.increment(key)).totalHits,
+      1,
+    );
+    await clients[0].del(`ratelimit:${broken}`, `ratelimit:${key}`);
+  } finally {
+    for (const client of clients) await client.quit();
+  }
+}
+
+function printSummary(): void {
+  console.log();
+  console.log(`${colors.yellow}==============================${colors.reset}`);
+  console.log(`${colors.yellow}        TEST SUMMARY          ${colors.reset}`);
+  console.log(`${colors.yellow}==============================${colors.reset}`);
+  console.log(`Total:  ${results.total}`);
+  console.log(`${colors.green}Passed: ${results.passed}${colors.reset}`);
+  console.log(`${colors.red}Failed: ${results.failed}${colors.reset}`);
+  console.log();
+
+  if (results.failed === 0) {
+    console.log(`${colors.green}All tests passed!${colors.reset}`);
+  } else {
+    console.log(`${colors.red}Some tests failed.${colors.reset}`);
+  }
+}
+
+async function main(): Promise<void> {
+  console.log("Rate Limit Store Tests");
+
+  await testFallback();
+  if (process.env.REDIS_URL) {
+    await testShared(process.env.REDIS_URL);
+  } else {
+    console.log();
+    console.log("REDIS_URL not set - skipping the shared counters");
+  }
+
+  printSummary();
+
+  process.exit(results.failed > 0 ? 1 : 0);
+}
+
+main().catch((err: unknown) => {
+  console.error("Test runner failed:", err);
+  process.exit(1);
+});
@@ -4,7 +4,10 @@
  */
 
 import { spawn, type ChildProcess } from "node:child_process";
-import { access } from "node:fs/promises";
+import { generateKeyPairSync } from "node:crypto";
+import { rmSync } from "node:fs";
+import { access, mkdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 
@@ -28,14 +31,84 @@ const colors = {
   reset: "\x1b[0m",
 };
 
-let serverProcess: ChildProcess | null = null;
+// A second server with authentication enabled, for the tests that need
+// clients told apart. Its credentials reach the tests through the AUTH_*
+// variables.
+const AUTH_PORT = 3001;
+const rsaKeys = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: "spki", format: "pem" },
+  privateKeyEncoding: { type: "pkcs8", format: "pem" },
+});
+const authEnv = {
+  AUTH_BASE_URL: `http://localhost:${String(AUTH_PORT)}`,
+  AUTH_API_KEYS:
+    "uploader:e2e-uploader-key,reader:e2e-reader-key,budget:e2e-budget-key",
+  AUTH_JWT_HS256_SECRET: "e2e-hs256-secret",
+  AUTH_JWT_RS256_PRIVATE_KEY: rsaKeys.privateKey,
+  AUTH_JWT_RS256_PUBLIC_KEY: rsaKeys.publicKey,
+};
+// Callbacks are signed with this; the main server opts in to delivering them
+// to a receiver the tests run on 127.0.0.1, and nowhere else
+const webhookEnv = { WEBHOOK_SECRET: "e2e-webhook-secret" };
+const serverEnv = {
+  ...webhookEnv,
+  WEBHOOK_ALLOWED_HOSTS: "127.0.0.1",
+  WEBHOOK_ALLOW_PRIVATE_TARGETS: "true",
+};
+const authServerEnv = {
+  PORT: String(AUTH_PORT),
+  API_KEYS: authEnv.AUTH_API_KEYS,
+  JWT_HS256_SECRET: authEnv.AUTH_JWT_HS256_SECRET,
+  JWT_RS256_PUBLIC_KEY: authEnv.AUTH_JWT_RS256_PUBLIC_KEY,
+  UPLOAD_CLIENTS: "uploader",
+  // Room for any one mock file (at most about 10 MB) but not for a batch
+  CLIENT_QUOTAS: "budget=0/12000000",
+  // Ignored while API authentication is enabled
+  WS_AUTH_TOKEN: "e2e-ws-token",
+  // The tests pose as a proxy forwarding clients, with a tight limit on /
+  TRUSTED_PROXIES: "127.0.0.1,::1",
+  RATE_LIMIT_ROUTES: "/=3",
+  // Default callback rules: no private targets
+  ...webhookEnv,
+};
+
+// With E2E_REDIS_URL, an api-only and a worker-only server that share work
+// through that Redis, for the tests of the split SERVICE_ROLE. Their URLs
+// reach the tests through the ROLE_* variables.
+const ROLE_API_PORT = 3002;
+const ROLE_WORKER_PORT = 3003;
+const roleRedisUrl = process.env.E2E_REDIS_URL ?? "";
+const roleEnv: Record<string, string> = roleRedisUrl
+  ? {
+      ROLE_API_URL: `http://localhost:${String(ROLE_API_PORT)}`,
+      ROLE_WORKER_URL: `http://localhost:${String(ROLE_WORKER_PORT)}`,
+    }
+  : {};
+// Both read and write one local storage directory, and the worker's download
+// URLs point at the api server, which serves /storage/*
+const roleStorageDir = path.join(
+  tmpdir(),
+  `e2e-role-storage-${String(process.pid)}`,
+);
+const roleServerEnv = {
+  REDIS_URL: roleRedisUrl,
+  JOB_STORE: "redis",
+  STORAGE_DRIVER: "local",
+  LOCAL_STORAGE_DIR: roleStorageDir,
+  LOCAL_STORAGE_PUBLIC_URL: `http://localhost:${String(ROLE_API_PORT)}`,
+  LOCAL_STORAGE_SIGNING_SECRET: "e2e-signing-secret",
+};
+
+const serverProcesses: ChildProcess[] = [];
 
 function cleanup(): void {
   console.log();
   console.log(`${colors.yellow}Cleaning up...${colors.reset}`);
-  if (serverProcess && !serverProcess.killed) {
-    serverProcess.kill("SIGTERM");
+  for (const serverProcess of serverProcesses) {
+    if (!serverProcess.killed) serverProcess.kill("SIGTERM");
   }
+  if (roleRedisUrl) rmSync(roleStorageDir, { recursive: true, force: true });
   console.log("Done.");
 }
 
@@ -49,10 +122,10 @@ process.on("SIGTERM", () => {
   process.exit(1);
 });
 
-async function waitForServer(maxAttempts = 30): Promise<boolean> {
+async function waitForServer(port: number, maxAttempts = 30): Promise<boolean> {
   for (let i = 0; i < maxAttempts; i++) {
     try {
-      const response = await fetch("http://localhost:3000/health");
+      const response = await fetch(`http://localhost:${String(port)}/health`);
       // Accept any response (200 or 503) - server is running
       if (response.status === 200 || response.status === 503) {
         return true;
@@ -65,8 +138,11 @@ async function waitForServer(maxAttempts = 30): Promise<boolean> {
   return false;
 }
 
-async function startServer(): Promise<ChildProcess> {
-  console.log(`${colors.yellow}Starting server...${colors.reset}`);
+async function startServer(
+  name: string,
+  extraEnv: Record<string, string> = {},
+): Promise<ChildProcess> {
+  console.log(`${colors.yellow}Starting ${name}...${colors.reset}`);
 
   // Check if .env file exists, use --env-file only if it does
   const envFileArg =
@@ -81,20 +157,20 @@ async function startServer(): Promise<ChildProcess> {
     {
       cwd: projectDir,
       stdio: ["ignore", "pipe", "pipe"],
-      env: { ...process.env },
+      env: { ...process.env, ...extraEnv },
     },
   );
 
   server.stdout?.on("data", (data: Buffer) => {
     const output = data.toString().trim();
-    if (output) console.log(`[server] ${output}`);
+    if (output) console.log(`[${name}] ${output}`);
   });
 
   server.stderr?.on("data", (data: Buffer) => {
     const output = data.toString().trim();
     // Filter out experimental warning
     if (output && !output.includes("ExperimentalWarning")) {
-      console.error(`[server] ${output}`);
+      console.error(`[${name}] ${output}`);
     }
   });
 
@@ -113,6 +189,7 @@ async function runTests(): Promise<number> {
       {
         cwd: projectDir,
         stdio: "inherit",
+        env: { ...process.env, ...authEnv, ...webhookEnv, ...roleEnv },
       },
     );
 
@@ -124,24 +201,54 @@ async function runTests(): Promise<number> {
 
 async function main(): Promise<void> {
   try {
-    // Start server
-    serverProcess = await startServer();
+    // Start servers
+    const server = await startServer("server", serverEnv);
+    serverProcesses.push(server);
+    const authServer = await startServer("auth-server", authServerEnv);
+    serverProcesses.push(authServer);
+    const ports = [3000, AUTH_PORT];
+    if (roleRedisUrl) {
+      // The files the role tests bundle
+      await mkdir(path.join(roleStorageDir, "downloads"), { recursive: true });
+      for (const fileId of [70000, 70007]) {
+        await writeFile(
+          path.join(roleStorageDir, "downloads", `${String(fileId)}.zip`),
+          `e2e role file ${String(fileId)}\n`.repeat(1000),
+        );
+      }
+      serverProcesses.push(
+        await startServer("api-server", {
+          ...roleServerEnv,
+          PORT: String(ROLE_API_PORT),
+          SERVICE_ROLE: "api",
+        }),
+        await startServer("worker-server", {
+          ...roleServerEnv,
+          PORT: String(ROLE_WORKER_PORT),
+          SERVICE_ROLE: "worker",
+        }),
+      );
+      ports.push(ROLE_API_PORT, ROLE_WORKER_PORT);
+    }
 
-    // Wait for server to be ready
+    // Wait for servers to be ready
     console.log(
-      `Waiting for server to start (PID: ${String(serverProcess.pid)})...`,
+      `Waiting for servers to start (PIDs: ${serverProcesses.map((p) => String(p.pid)).join(", ")})...`,
     );
-    const serverReady = await waitForServer();
+    let serversReady = true;
+    for (const port of ports) {
+      serversReady &&= await waitForServer(port);
+    }
 
-    if (!serverReady) {
+    if (!serversReady) {
       console.error(
-        `${colors.red}Server did not become ready in time.${colors.reset}`,
+        `${colors.red}Servers did not become ready in time.${colors.reset}`,
       );
       cleanup();
       process.exit(1);
     }
 
-    console.log(`${colors.green}Server started successfully!${colors.reset}`);
+    console.log(`${colors.green}Servers started successfully!${colors.reset}`);
 
     // Run tests
     const testExitCode = await runTests();
@@ -0,0 +1,694 @@
+/**
+ * Storage driver tests - local files, mock files and signed download URLs
+ * Usage: node --experimental-transform-types scripts/storage-test.ts
+ */
+
+import { mkdir, mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { text } from "node:stream/consumers";
+import { S3ServiceException } from "@aws-sdk/client-s3";
+import { createHash } from "node:crypto";
+import {
+  createLocalStorage,
+  createMockStorage,
+  isInvalidUploadError,
+} from "../src/storage.ts";
+import type {
+  SignedStorageBackend,
+  StorageObjectInfo,
+} from "../src/storage.ts";
+
+// ANSI Colors
+const colors = {
+  red: "\x1b[31m",
+  green: "\x1b[32m",
+  yellow: "\x1b[33m",
+  reset: "\x1b[0m",
+};
+
+interface TestResult {
+  passed: number;
+  failed: number;
+  total: number;
+}
+
+const results: TestResult = { passed: 0, failed: 0, total: 0 };
+
+function logPass(message: string): void {
+  console.log(`${colors.green}✓ PASS${colors.reset}: ${message}`);
+  results.passed++;
+  results.total++;
+}
+
+function logFail(message: string, expected: string, got: string): void {
+  console.log(`${colors.red}✗ FAIL${colors.reset}: ${message}`);
+  console.log(`  ${colors.yellow}Expected${colors.reset}: ${expected}`);
+  console.log(`  ${colors.yellow}Got${colors.reset}: ${got}`);
+  results.failed++;
+  results.total++;
+}
+
+function logSection(title: string): void {
+  console.log();
+  console.log(`${colors.yellow}=== ${title} ===${colors.reset}`);
+}
+
+function expectEqual(message: string, got: unknown, expected: unknown): void {
+  const gotJson = JSON.stringify(got);
+  const expectedJson = JSON.stringify(expected);
+  if (gotJson === expectedJson) {
+    logPass(message);
+  } else {
+    logFail(message, expectedJson, gotJson);
+  }
+}
+
+// The fields every driver fills in the same way
+const sizeAndType = (info: StorageObjectInfo | null) =>
+  info && { size: info.size, contentType: info.contentType };
+
+// Split a download URL into what the /storage/* route receives once a proxy
+// has stripped the public base path
+const parseDownloadUrl = (url: string) => {
+  const parsed = new URL(url);
+  const prefix = "/storage/";
+  return {
+    key: parsed.pathname.slice(parsed.pathname.indexOf(prefix) + prefix.length),
+    expires: parsed.searchParams.get("expires") ?? undefined,
+    signature: parsed.searchParams.get("signature") ?? undefined,
+  };
+};
+
+async function testObjects(
+  root: string,
+  storage: SignedStorageBackend,
+): Promise<void> {
+  logSection("local: objects");
+  await mkdir(path.join(root, "downloads"), { recursive: true });
+  await writeFile(path.join(root, "downloads", "10070.zip"), "hello");
+
+  expectEqual(
+    "checkHealth reports the root",
+    await storage.checkHealth(),
+    true,
+  );
+  const info = await storage.headObject("downloads/10070.zip");
+  expectEqual("headObject returns the size", sizeAndType(info), {
+    size: 5,
+    contentType: null,
+  });
+  expectEqual(
+    "headObject returns an ETag and Last-Modified",
+    [info?.etag?.startsWith('"'), info?.lastModified instanceof Date],
+    [true, true],
+  );
+  expectEqual(
+    "headObject returns null for a missing object",
+    await storage.headObject("downloads/10071.zip"),
+    null,
+  );
+  expectEqual(
+    "getObject streams the file",
+    await text(await storage.getObject("downloads/10070.zip")),
+    "hello",
+  );
+  expectEqual(
+    "getObject streams a range",
+    await text(
+      await storage.getObject("downloads/10070.zip", {
+        range: { start: 1, end: 3 },
+      }),
+    ),
+    "ell",
+  );
+
+  let missingError = "";
+  try {
+    await storage.getObject("downloads/10071.zip");
+  } catch (err) {
+    missingError = (err as NodeJS.ErrnoException).code ?? "";
+  }
+  expectEqual(
+    "getObject fails up front for a missing file",
+    missingError,
+    "ENOENT",
+  );
+
+  let traversalError = false;
+  try {
+    await storage.headObject("../outside.zip");
+  } catch {
+    traversalError = true;
+  }
+  expectEqual("keys cannot escape the root", traversalError, true);
+
+  await storage.putObject("bundles/a.zip", Readable.from(["bun", "dle"]), {
+    contentType: "application/zip",
+  });
+  expectEqual(
+    "putObject writes the object",
+    await text(await storage.getObject("bundles/a.zip")),
+    "bundle",
+  );
+
+  // An aborted upload leaves neither the object nor its partial file behind
+  const controller = new AbortController();
+  const body = new Readable({ read: () => undefined });
+  body.push("partial");
+  const upload = storage.putObject("bundles/b.zip", body, {
+    contentType: "application/zip",
+    signal: controller.signal,
+  });
+  controller.abort();
+  await upload.catch(() => undefined);
+  expectEqual(
+    "an aborted putObject leaves nothing behind",
+    (await readdir(path.join(root, "bundles"))).sort(),
+    ["a.zip"],
+  );
+}
+
+async function testSignedUrls(storage: SignedStorageBackend): Promise<void> {
+  logSection("local: signed URLs");
+  const url = await storage.getDownloadUrl("downloads/10070.zip", 60);
+  const { key, expires, signature } = parseDownloadUrl(url);
+
+  expectEqual(
+    "URLs point at the public base",
+    url.startsWith("http://files.test/base/storage/downloads/10070.zip?"),
+    true,
+  );
+  expectEqual(
+    "a valid URL is accepted",
+    storage.verifyDownload(key, expires, signature),
+    true,
+  );
+  expectEqual(
+    "a URL for another key is rejected",
+    storage.verifyDownload("downloads/10014.zip", expires, signature),
+    false,
+  );
+  expectEqual(
+    "a changed expiry is rejected",
+    storage.verifyDownload(key, String(Number(expires) + 60), signature),
+    false,
+  );
+  expectEqual(
+    "a missing signature is rejected",
+    storage.verifyDownload(key, expires, undefined),
+    false,
+  );
+
+  const expired = parseDownloadUrl(
+    await storage.getDownloadUrl("downloads/10070.zip", -1),
+  );
+  expectEqual(
+    "an expired URL is rejected",
+    storage.verifyDownload(expired.key, expired.expires, expired.signature),
+    false,
+  );
+}
+
+async function testUploads(
+  driver: string,
+  storage: SignedStorageBackend,
+): Promise<void> {
+  logSection(`${driver}: uploads`);
+  const key = "downloads/10140.zip";
+
+  const upload = parseDownloadUrl(await storage.getUploadUrl(key, 60, "a/b"));
+  const download = parseDownloadUrl(await storage.getDownloadUrl(key, 60));
+  expectEqual(
+    "upload and download URLs are not interchangeable",
+    [
+      storage.verifyUpload(key, upload.expires, upload.signature, null),
+      storage.verifyDownload(key, upload.expires, upload.signature),
+      storage.verifyUpload(key, download.expires, download.signature, null),
+    ],
+    [true, false, false],
+  );
+
+  const uploadId = await storage.createMultipartUpload(key, "application/zip");
+  const partUrl = new URL(await storage.getUploadPartUrl(key, uploadId, 2, 60));
+  const part = parseDownloadUrl(partUrl.toString());
+  expectEqual(
+    "part URLs are signed for their upload and part number",
+    [
+      partUrl.searchParams.get("uploadId") === uploadId &&
+        partUrl.searchParams.get("partNumber") === "2",
+      storage.verifyUpload(key, part.expires, part.signature, {
+        uploadId,
+        partNumber: 2,
+      }),
+      storage.verifyUpload(key, part.expires, part.signature, {
+        uploadId,
+        partNumber: 1,
+      }),
+      storage.verifyUpload(key, part.expires, part.signature, null),
+    ],
+    [true, true, false, false],
+  );
+
+  const etag1 = await storage.putUploadPart(
+    key,
+    { uploadId, partNumber: 1 },
+    Readable.from(["hello "]),
+  );
+  const etag2 = await storage.putUploadPart(
+    key,
+    { uploadId, partNumber: 2 },
+    Readable.from(["world"]),
+  );
+  expectEqual(
+    "part ETags are the MD5 of the part",
+    etag1,
+    `"${createHash("md5").update("hello ").digest("hex")}"`,
+  );
+
+  const completeError = async (parts: { partNumber: number; etag: string }[]) =>
+    storage.completeMultipartUpload(key, uploadId, parts).then(
+      () => "none",
+      (err: unknown) =>
+        isInvalidUploadError(err) ? (err as Error).name : "other",
+    );
+  expectEqual(
+    "completion checks part ETags and order",
+    [
+      await completeError([
+        { partNumber: 1, etag: etag2 },
+        { partNumber: 2, etag: etag2 },
+      ]),
+      await completeError([
+        { partNumber: 2, etag: etag2 },
+        { partNumber: 1, etag: etag1 },
+      ]),
+    ],
+    ["InvalidPart", "InvalidPartOrder"],
+  );
+
+  await storage.completeMultipartUpload(key, uploadId, [
+    { partNumber: 1, etag: etag1 },
+    { partNumber: 2, etag: etag2.replace(/"/g, "") },
+  ]);
+  expectEqual(
+    "a completed upload reads back as one object",
+    await text(await storage.getObject(key)),
+    "hello world",
+  );
+  expectEqual(
+    "a completed upload cannot be completed again",
+    await completeError([{ partNumber: 1, etag: etag1 }]),
+    "NoSuchUpload",
+  );
+
+  await storage.putUpload("downloads/10141.zip", Readable.from(["single"]), {
+    contentType: "application/zip",
+  });
+  const secondId = await storage.createMultipartUpload(key, "application/zip");
+  const secondEtag = await storage.putUploadPart(
+    key,
+    { uploadId: secondId, partNumber: 1 },
+    Readable.from(["again"]),
+  );
+  expectEqual(
+    "uploads never replace an object",
+    [
+      await text(await storage.getObject("downloads/10141.zip")),
+      await errorName(() =>
+        storage.putUpload(key, Readable.from(["again"]), {
+          contentType: "application/zip",
+        }),
+      ),
+      await errorName(() =>
+        storage.completeMultipartUpload(key, secondId, [
+          { partNumber: 1, etag: secondEtag },
+        ]),
+      ),
+      await text(await storage.getObject(key)),
+    ],
+    ["single", "PreconditionFailed", "PreconditionFailed", "hello world"],
+  );
+}
+
+const fileIdOf = (key: string): number | null => {
+  const match = /^downloads\/(\d+)\.zip$/.exec(key);
+  return match ? Number(match[1]) : null;
+};
+
+const sha256 = async (storage: SignedStorageBackend, key: string) =>
+  createHash("sha256")
+    .update(Buffer.from(await (await storage.getObject(key)).toArray()))
+    .digest("hex");
+
+const errorName = async (call: () => Promise<unknown>): Promise<string> => {
+  try {
+    await call();
+    return "none";
+  } catch (err) {
+    return err instanceof S3ServiceException ? err.name : "other";
+  }
+};
+
+// Multipart uploads expire with their part URLs; `multipartDir` is where the
+// driver keeps them on disk, if it does
+async function testUploadExpiry(
+  driver: string,
+  storage: SignedStorageBackend,
+  multipartDir: string | null,
+): Promise<void> {
+  logSection(`${driver}: abandoned uploads`);
+  const key = "downloads/10143.zip";
+
+  const uploadId = await storage.createMultipartUpload(key, "application/zip");
+  const etag = await storage.putUploadPart(
+    key,
+    { uploadId, partNumber: 1 },
+    Readable.from(["abandoned"]),
+  );
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  expectEqual(
+    "an expired upload takes no more parts",
+    await errorName(() =>
+      storage.putUploadPart(
+        key,
+        { uploadId, partNumber: 2 },
+        Readable.from(["late"]),
+      ),
+    ),
+    "NoSuchUpload",
+  );
+  expectEqual(
+    "an expired upload cannot be completed",
+    await errorName(() =>
+      storage.completeMultipartUpload(key, uploadId, [{ partNumber: 1, etag }]),
+    ),
+    "NoSuchUpload",
+  );
+
+  const next = await storage.createMultipartUpload(key, "application/zip");
+  if (multipartDir) {
+    expectEqual(
+      "starting an upload removes the expired ones",
+      await readdir(multipartDir),
+      [next],
+    );
+  }
+}
+
+async function testMockRetention(): Promise<void> {
+  logSection("mock: stored objects");
+  const storage = createMockStorage({
+    fixtures: null,
+    seed: "test-seed",
+    fileIdOf,
+    publicUrl: "http://files.test",
+    secret: "test-secret",
+    uploadTtlMs: 60_000,
+    objectTtlMs: 200,
+  });
+  const published = "downloads/10151.zip";
+  await storage.putUpload(published, Readable.from(["published"]), {
+    contentType: "application/zip",
+  });
+  const bundles = Array.from(
+    { length: 12 },
+    (_, i) => `bundles/${String(i)}.zip`,
+  );
+  for (const bundle of bundles) {
+    await storage.putObject(bundle, Readable.from([bundle]), {
+      contentType: "application/zip",
+    });
+  }
+  expectEqual(
+    "a published file survives many bundle writes",
+    await text(await storage.getObject(published)),
+    "published",
+  );
+  expectEqual(
+    "bundles are kept until they expire",
+    await text(await storage.getObject(bundles[0])),
+    bundles[0],
+  );
+
+  await new Promise((resolve) => setTimeout(resolve, 250));
+  await storage.putObject("bundles/late.zip", Readable.from(["late"]), {
+    contentType: "application/zip",
+  });
+  expectEqual(
+    "expired bundles are gone",
+    await storage.headObject(bundles[0]),
+    null,
+  );
+  expectEqual(
+    "published files never expire",
+    (await storage.headObject(published))?.size,
+    "published".length,
+  );
+  storage.close();
+}
+
+async function testMockSeeded(): Promise<void> {
+  logSection("mock: seeded files");
+  const options = {
+    fixtures: null,
+    seed: "test-seed",
+    fileIdOf,
+    publicUrl: "http://files.test",
+    secret: "test-secret",
+    uploadTtlMs: 60_000,
+    objectTtlMs: 60_000,
+  };
+  const storage = createMockStorage(options);
+  const again = createMockStorage(options);
+  const other = createMockStorage({ ...options, seed: "other-seed" });
+
+  expectEqual(
+    "files divisible by 7 exist",
+    [
+      (await storage.headObject("downloads/70000.zip")) !== null,
+      await storage.headObject("downloads/70001.zip"),
+    ],
+    [true, null],
+  );
+  const info = await storage.headObject("downloads/70007.zip");
+  expectEqual(
+    "sizes are the same on every call and instance",
+    [
+      await storage.headObject("downloads/70007.zip"),
+      await again.headObject("downloads/70007.zip"),
+    ],
+    [info, info],
+  );
+  expectEqual(
+    "the seed changes sizes",
+    (await other.headObject("downloads/70007.zip"))?.size === info?.size,
+    false,
+  );
+  const bytes = await (
+    await storage.getObject("downloads/70007.zip")
+  ).toArray();
+  expectEqual(
+    "contents match the reported size",
+    Buffer.concat(bytes).length,
+    info?.size,
+  );
+  expectEqual(
+    "contents are the same on every read and instance",
+    await sha256(storage, "downloads/70007.zip"),
+    await sha256(again, "downloads/70007.zip"),
+  );
+
+  // Ranges match the same bytes of a full read, wherever they start and end
+  const full = Buffer.concat(bytes);
+  const ranges = [
+    { start: 0, end: 0 },
+    { start: 3, end: 70000 },
+    { start: 65535, end: 65537 },
+    { start: full.length - 5, end: full.length - 1 },
+  ];
+  const ranged = await Promise.all(
+    ranges.map(async (range) =>
+      Buffer.concat(
+        await (
+          await storage.getObject("downloads/70007.zip", { range })
+        ).toArray(),
+      ),
+    ),
+  );
+  expectEqual(
+    "ranges read the same bytes as a full read",
+    ranged.map((bytes, i) =>
+      bytes.equals(full.subarray(ranges[i].start, ranges[i].end + 1)),
+    ),
+    [true, true, true, true],
+  );
+
+  expectEqual(
+    "getObject fails with NoSuchKey for a missing file",
+    await errorName(() => storage.getObject("downloads/70001.zip")),
+    "NoSuchKey",
+  );
+
+  await storage.putObject("bundles/a.zip", Readable.from(["bundle"]), {
+    contentType: "application/zip",
+  });
+  expectEqual(
+    "uploaded objects read back",
+    [
+      sizeAndType(await storage.headObject("bundles/a.zip")),
+      await text(await storage.getObject("bundles/a.zip")),
+      await text(
+        await storage.getObject("bundles/a.zip", {
+          range: { start: 2, end: 4 },
+        }),
+      ),
+    ],
+    [{ size: 6, contentType: "application/zip" }, "bundle", "ndl"],
+  );
+  expectEqual(
+    "uploaded objects report their SHA-256 checksum",
+    (await storage.headObject("bundles/a.zip"))?.checksums.sha256,
+    createHash("sha256").update("bundle").digest("base64"),
+  );
+  for (const mock of [storage, again, other]) mock.close();
+}
+
+async function testMockFixtures(): Promise<void> {
+  logSection("mock: fixtures");
+  const storage = createMockStorage({
+    fixtures: [
+      { fileId: 10001, size: 10, contentType: "application/pdf" },
+      {
+        fileId: 10002,
+        size: 10,
+        contentType: "application/zip",
+        error: "SlowDown",
+        failTimes: 2,
+      },
+      {
+        fileId: 10003,
+        size: 10,
+        contentType: "application/zip",
+        error: "AccessDenied",
+      },
+    ],
+    seed: "test-seed",
+    fileIdOf,
+    publicUrl: "http://files.test",
+    secret: "test-secret",
+    uploadTtlMs: 60_000,
+    objectTtlMs: 60_000,
+  });
+
+  expectEqual(
+    "only listed files exist",
+    [
+      sizeAndType(await storage.headObject("downloads/10001.zip")),
+      await storage.headObject("downloads/70000.zip"),
+    ],
+    [{ size: 10, contentType: "application/pdf" }, null],
+  );
+  expectEqual(
+    "failTimes errors clear after that many calls",
+    [
+      await errorName(() => storage.headObject("downloads/10002.zip")),
+      await errorName(() => storage.getObject("downloads/10002.zip")),
+      await errorName(() => storage.headObject("downloads/10002.zip")),
+    ],
+    ["SlowDown", "SlowDown", "none"],
+  );
+  expectEqual(
+    "errors without failTimes persist",
+    [
+      await errorName(() => storage.headObject("downloads/10003.zip")),
+      await errorName(() => storage.headObject("downloads/10003.zip")),
+    ],
+    ["AccessDenied", "AccessDenied"],
+  );
+  storage.close();
+}
+
+function printSummary(): void {
+  console.log();
+  console.log(`${colors.yellow}==============================${colors.reset}`);
+  console.log(`${colors.yellow}        TEST SUMMARY          ${colors.reset}`);
+  console.log(`${colors.yellow}==============================${colors.reset}`);
+  console.log(`Total:  ${results.total}`);
+  console.log(`${colors.green}Passed: ${results.passed}${colors.reset}`);
+  console.log(`${colors.red}Failed: ${results.failed}${colors.reset}`);
+  console.log();
+
+  if (results.failed === 0) {
+    console.log(`${colors.green}All tests passed!${colors.reset}`);
+  } else {
+    console.log(`${colors.red}Some tests failed.${colors.reset}`);
+  }
+}
+
+async function main(): Promise<void> {
+  console.log("Storage Driver Tests");
+
+  const tempDir = await mkdtemp(path.join(tmpdir(), "storage-test-"));
+  try {
+    const root = path.join(tempDir, "storage");
+    const storage = await createLocalStorage({
+      root,
+      publicUrl: "http://files.test/base",
+      secret: "test-secret",
+      uploadTtlMs: 60_000,
+    });
+    await testObjects(root, storage);
+    await testSignedUrls(storage);
+    await testUploads("local", storage);
+    await testMockSeeded();
+    await testMockFixtures();
+    await testMockRetention();
+    const mock = createMockStorage({
+      fixtures: null,
+      seed: "test-seed",
+      fileIdOf,
+      publicUrl: "http://files.test",
+      secret: "test-secret",
+      uploadTtlMs: 60_000,
+      objectTtlMs: 60_000,
+    });
+    await testUploads("mock", mock);
+    mock.close();
+
+    const expiringRoot = path.join(tempDir, "expiring");
+    await testUploadExpiry(
+      "local",
+      await createLocalStorage({
+        root: expiringRoot,
+        publicUrl: "http://files.test/base",
+        secret: "test-secret",
+        uploadTtlMs: 50,
+      }),
+      path.join(expiringRoot, ".multipart"),
+    );
+    const expiringMock = createMockStorage({
+      fixtures: null,
+      seed: "test-seed",
+      fileIdOf,
+      publicUrl: "http://files.test",
+      secret: "test-secret",
+      uploadTtlMs: 50,
+      objectTtlMs: 60_000,
+    });
+    await testUploadExpiry("mock", expiringMock, null);
+    expiringMock.close();
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+
+  printSummary();
+
+  process.exit(results.failed > 0 ? 1 : 0);
+}
+
+main().catch((err: unknown) => {
+  console.error("Test runner failed:", err);
+  process.exit(1);
+});
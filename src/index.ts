@@ -1,11 +1,8 @@
-import {
-  GetObjectCommand,
-  HeadObjectCommand,
-  S3Client,
-} from "@aws-sdk/client-s3";
-import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { S3Client, S3ServiceException } from "@aws-sdk/client-s3";
 import { serve } from "@hono/node-server";
 import type { ServerType } from "@hono/node-server";
+import { getConnInfo } from "@hono/node-server/conninfo";
+import { createNodeWebSocket } from "@hono/node-ws";
 import { httpInstrumentationMiddleware } from "@hono/otel";
 import { sentry } from "@hono/sentry";
 import { createRoute, OpenAPIHono, z } from "@hono/zod-openapi";
@@ -14,16 +11,71 @@ import { resourceFromAttributes } from "@opentelemetry/resources";
 import { NodeSDK } from "@opentelemetry/sdk-node";
 import { ATTR_SERVICE_NAME } from "@opentelemetry/semantic-conventions";
 import { Scalar } from "@scalar/hono-api-reference";
+import archiver from "archiver";
 import { Queue, Worker } from "bullmq";
+import type { Context } from "hono";
 import { cors } from "hono/cors";
+import { decode, verify } from "hono/jwt";
+import { routePath } from "hono/route";
 import { secureHeaders } from "hono/secure-headers";
+import { stream, streamSSE } from "hono/streaming";
 import { timeout } from "hono/timeout";
+import type { WSContext } from "hono/ws";
 import { rateLimiter } from "hono-rate-limiter";
 import { Redis } from "ioredis";
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from "prom-client";
+import {
+  createHash,
+  createHmac,
+  randomBytes,
+  timingSafeEqual,
+} from "node:crypto";
+import type { LookupAddress } from "node:dns";
+import { lookup as dnsLookup } from "node:dns/promises";
+import { EventEmitter, once } from "node:events";
+import { readFile } from "node:fs/promises";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { BlockList, isIP } from "node:net";
+import type { LookupFunction } from "node:net";
+import { PassThrough, Readable, Transform } from "node:stream";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+
+import {
+  createMemoryJobStore,
+  createRedisJobStore,
+  createSqliteJobStore,
+} from "./job-store.ts";
+import type { JobIndexEntry, JobStore } from "./job-store.ts";
+import { LocalQueue } from "./local-queue.ts";
+import { createRedisRateLimitStore } from "./rate-limit-store.ts";
+import {
+  createLocalStorage,
+  createMockStorage,
+  createS3Storage,
+  isInvalidUploadError,
+  isObjectExistsError,
+  isS3NotFoundError,
+  MOCK_STORAGE_ERRORS,
+} from "./storage.ts";
+import type {
+  ByteRange,
+  S3Operation,
+  SignedStorageBackend,
+  StorageBackend,
+  StorageObjectInfo,
+} from "./storage.ts";
 
-// Extend Hono's context variable map to include requestId
+// Extend Hono's context variable map to include requestId and the caller
 interface AppVariables {
   requestId: string;
+  clientId: string | null; // Authenticated client; null when auth is disabled
 }
 
 // Helper for optional URL that treats empty string as undefined
@@ -34,52 +86,336 @@ const optionalUrl = z
   .pipe(z.url().optional());
 
 // Environment schema
-const EnvSchema = z.object({
-  NODE_ENV: z
-    .enum(["development", "production", "test"])
-    .default("development"),
-  PORT: z.coerce.number().int().min(1).max(65535).default(3000),
-  S3_REGION: z.string().min(1).default("us-east-1"),
-  S3_ACCESS_KEY_ID: z.string().optional(),
-  S3_SECRET_ACCESS_KEY: z.string().optional(),
-  S3_ENDPOINT: optionalUrl,
-  S3_BUCKET_NAME: z.string().default(""),
-  S3_FORCE_PATH_STYLE: z.coerce.boolean().default(false),
-  SENTRY_DSN: optionalUrl,
-  OTEL_EXPORTER_OTLP_ENDPOINT: optionalUrl,
-  REQUEST_TIMEOUT_MS: z.coerce.number().int().min(1000).default(30000),
-  RATE_LIMIT_WINDOW_MS: z.coerce.number().int().min(1000).default(60000),
-  RATE_LIMIT_MAX_REQUESTS: z.coerce.number().int().min(1).default(100),
-  CORS_ORIGINS: z
-    .string()
-    .default("*")
-    .transform((val) => (val === "*" ? "*" : val.split(","))),
-  // Download delay simulation (in milliseconds)
-  DOWNLOAD_DELAY_MIN_MS: z.coerce.number().int().min(0).default(10000), // 10 seconds
-  DOWNLOAD_DELAY_MAX_MS: z.coerce.number().int().min(0).default(200000), // 200 seconds
-  DOWNLOAD_DELAY_ENABLED: z.coerce.boolean().default(true),
-  // Redis configuration
-  REDIS_URL: z.url().optional(),
-  // Presigned URL expiry
-  PRESIGNED_URL_EXPIRY_SECONDS: z.coerce.number().int().min(60).default(3600),
-});
+const EnvSchema = z
+  .object({
+    NODE_ENV: z
+      .enum(["development", "production", "test"])
+      .default("development"),
+    PORT: z.coerce.number().int().min(1).max(65535).default(3000),
+    S3_REGION: z.string().min(1).default("us-east-1"),
+    S3_ACCESS_KEY_ID: z.string().optional(),
+    S3_SECRET_ACCESS_KEY: z.string().optional(),
+    S3_ENDPOINT: optionalUrl,
+    S3_BUCKET_NAME: z.string().default(""),
+    S3_FORCE_PATH_STYLE: z.coerce.boolean().default(false),
+    // Where downloadable files live: "s3", "local" (files under
+    // LOCAL_STORAGE_DIR) or "mock" (generated files; also used by "s3" while
+    // S3_BUCKET_NAME is empty). Local and mock files are served by /storage/*
+    // through HMAC-signed, expiring URLs.
+    STORAGE_DRIVER: z.enum(["s3", "local", "mock"]).default("s3"),
+    LOCAL_STORAGE_DIR: z.string().default("./data/storage"),
+    // Base of /storage/* download URLs (default http://localhost:PORT)
+    LOCAL_STORAGE_PUBLIC_URL: optionalUrl,
+    // Signs /storage/* download URLs; a random per-process secret when unset
+    LOCAL_STORAGE_SIGNING_SECRET: z.string().optional(),
+    // Mock storage: a JSON fixture file listing the files that exist (see
+    // MockStorageFixturesSchema), else every file_id divisible by 7 with a
+    // size derived from MOCK_STORAGE_SEED
+    MOCK_STORAGE_FIXTURES: z.string().optional(),
+    MOCK_STORAGE_SEED: z.string().default("delineate"),
+    SENTRY_DSN: optionalUrl,
+    OTEL_EXPORTER_OTLP_ENDPOINT: optionalUrl,
+    REQUEST_TIMEOUT_MS: z.coerce.number().int().min(1000).default(30000),
+    RATE_LIMIT_WINDOW_MS: z.coerce.number().int().min(1000).default(60000),
+    RATE_LIMIT_MAX_REQUESTS: z.coerce.number().int().min(1).default(100),
+    // Per-route limits as comma-separated path=limit pairs; a trailing * matches
+    // any suffix (e.g. /v1/download/initiate=20,/v1/download/status/*=300)
+    RATE_LIMIT_ROUTES: z
+      .string()
+      .default("")
+      .refine(
+        (val) =>
+          val
+            .split(",")
+            .filter((entry) => entry.trim())
+            .every((entry) => /^\/\S*=\d+$/.test(entry.trim())),
+        "RATE_LIMIT_ROUTES entries must look like /path=limit",
+      )
+      .transform((val) =>
+        val
+          .split(",")
+          .map((entry) => entry.trim())
+          .filter(Boolean)
+          .map((entry) => {
+            const separator = entry.lastIndexOf("=");
+            return {
+              path: entry.slice(0, separator),
+              limit: Number(entry.slice(separator + 1)),
+            };
+          }),
+      ),
+    // Proxies whose X-Forwarded-For / X-Real-IP are honoured (comma-separated IPs or CIDRs)
+    TRUSTED_PROXIES: z
+      .string()
+      .default("")
+      .transform((val) =>
+        val
+          .split(",")
+          .map((entry) => entry.trim())
+          .filter(Boolean),
+      )
+      .refine(
+        (entries) =>
+          entries.every((entry) => {
+            const [address, prefix] = entry.split("/") as [
+              string,
+              string | undefined,
+            ];
+            return (
+              isIP(address) !== 0 &&
+              (prefix === undefined || /^\d{1,3}$/.test(prefix))
+            );
+          }),
+        "TRUSTED_PROXIES entries must be IP addresses or CIDR ranges",
+      ),
+    CORS_ORIGINS: z
+      .string()
+      .default("*")
+      .transform((val) => (val === "*" ? "*" : val.split(","))),
+    // Download delay simulation (in milliseconds)
+    DOWNLOAD_DELAY_MIN_MS: z.coerce.number().int().min(0).default(10000), // 10 seconds
+    DOWNLOAD_DELAY_MAX_MS: z.coerce.number().int().min(0).default(200000), // 200 seconds
+    DOWNLOAD_DELAY_ENABLED: z.coerce.boolean().default(true),
+    // /v1/download/start runs under this instead of REQUEST_TIMEOUT_MS, since
+    // its simulated delay alone can reach DOWNLOAD_DELAY_MAX_MS
+    DOWNLOAD_START_TIMEOUT_MS: z.coerce
+      .number()
+      .int()
+      .min(1000)
+      .default(300000),
+    // Retries for transient storage failures (exponential backoff between attempts)
+    DOWNLOAD_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(3),
+    DOWNLOAD_RETRY_BACKOFF_MS: z.coerce.number().int().min(0).default(2000),
+    DOWNLOAD_RETRY_BACKOFF_MAX_MS: z.coerce
+      .number()
+      .int()
+      .min(0)
+      .default(60000),
+    // Redis configuration
+    REDIS_URL: z.url().optional(),
+    // Where job records live: "redis" (default when REDIS_URL is set), "memory"
+    // (the default otherwise; bounded by JOB_STORE_MAX_ENTRIES) or "sqlite"
+    // (a local file at JOB_STORE_PATH that survives restarts)
+    JOB_STORE: z.enum(["redis", "memory", "sqlite"]).optional(),
+    JOB_STORE_MAX_ENTRIES: z.coerce.number().int().min(1).default(10000),
+    JOB_STORE_PATH: z.string().default("./data/jobs.sqlite"),
+    // Process role: "api" serves HTTP, "worker" consumes the BullMQ queues,
+    // "all" does both. Split roles share work through Redis.
+    SERVICE_ROLE: z.enum(["api", "worker", "all"]).default("all"),
+    // Shutdown gives up on draining and exits after this long
+    SHUTDOWN_TIMEOUT_MS: z.coerce.number().int().min(1000).default(25000),
+    // Download jobs a single worker process runs at once
+    DOWNLOAD_WORKER_CONCURRENCY: z.coerce.number().int().min(1).default(5),
+    // Without Redis, unfinished download jobs are journalled to this file and
+    // resumed after a restart (optional; unset keeps the local queue in memory).
+    // Needs JOB_STORE=sqlite, which keeps the records they resume from.
+    LOCAL_QUEUE_JOURNAL_PATH: z.string().optional(),
+    // How long each /health/ready dependency check may take before it counts as failed
+    HEALTH_CHECK_TIMEOUT_MS: z.coerce.number().int().min(100).default(2000),
+    // Presigned URL expiry
+    PRESIGNED_URL_EXPIRY_SECONDS: z.coerce.number().int().min(60).default(3600),
+    // How long GET /v1/files/:fileId results are reused (0 disables caching)
+    FILE_METADATA_CACHE_SECONDS: z.coerce.number().int().min(0).default(30),
+    // SSE and NDJSON stream heartbeat interval (keeps proxies from closing idle streams)
+    SSE_HEARTBEAT_MS: z.coerce.number().int().min(1000).default(15000),
+    // Shared token required to open the job subscription WebSocket while
+    // /v1 authentication is disabled (optional; ignored once it is enabled)
+    WS_AUTH_TOKEN: z.string().optional(),
+    // Webhook callbacks (payloads are signed with WEBHOOK_SECRET; required for callbackUrl)
+    WEBHOOK_SECRET: z.string().optional(),
+    WEBHOOK_TIMEOUT_MS: z.coerce.number().int().min(100).default(10000),
+    WEBHOOK_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(5),
+    WEBHOOK_RETRY_BACKOFF_MS: z.coerce.number().int().min(0).default(5000),
+    // Hosts callbackUrl may point at (comma-separated; empty allows any host
+    // with a public address)
+    WEBHOOK_ALLOWED_HOSTS: z
+      .string()
+      .default("")
+      .transform((val) =>
+        val
+          .split(",")
+          .map((entry) => entry.trim().toLowerCase())
+          .filter(Boolean),
+      ),
+    // Let callbacks reach loopback, private and link-local addresses. Only
+    // for local testing: it lets callers probe the internal network.
+    WEBHOOK_ALLOW_PRIVATE_TARGETS: z
+      .enum(["true", "false"])
+      .default("false")
+      .transform((val) => val === "true"),
+    // How long an Idempotency-Key on /v1/download/initiate is remembered
+    IDEMPOTENCY_KEY_TTL_SECONDS: z.coerce.number().int().min(60).default(86400),
+    // Authentication for /v1 routes (enabled when any credential is configured).
+    // API_KEYS is a comma-separated list of clientId:key pairs.
+    API_KEYS: z
+      .string()
+      .default("")
+      .refine(
+        (val) =>
+          val
+            .split(",")
+            .filter((entry) => entry.trim())
+            .every((entry) => /^[^:]+:.+$/.test(entry.trim())),
+        "API_KEYS entries must look like clientId:key",
+      )
+      .transform((val) =>
+        val
+          .split(",")
+          .map((entry) => entry.trim())
+          .filter(Boolean)
+          .map((entry) => {
+            const separator = entry.indexOf(":");
+            return {
+              clientId: entry.slice(0, separator),
+              key: entry.slice(separator + 1),
+            };
+          }),
+      ),
+    JWT_HS256_SECRET: z.string().optional(),
+    // PEM public key; literal "\n" sequences are accepted for single-line env files
+    JWT_RS256_PUBLIC_KEY: z
+      .string()
+      .optional()
+      .transform((val) => val?.replace(/\\n/g, "\n")),
+    JWT_ISSUER: z.string().optional(),
+    JWT_AUDIENCE: z.string().optional(),
+    // Per-client quotas (0 = unlimited): jobs queued or processing at once, and
+    // bytes of files made available per UTC day. CLIENT_QUOTAS overrides both
+    // for individual clients as clientId=maxActiveJobs/dailyBytes pairs.
+    QUOTA_MAX_ACTIVE_JOBS: z.coerce.number().int().min(0).default(0),
+    QUOTA_DAILY_BYTES: z.coerce.number().int().min(0).default(0),
+    CLIENT_QUOTAS: z
+      .string()
+      .default("")
+      .refine(
+        (val) =>
+          val
+            .split(",")
+            .filter((entry) => entry.trim())
+            .every((entry) => /^[^=]+=\d+\/\d+$/.test(entry.trim())),
+        "CLIENT_QUOTAS entries must look like clientId=maxActiveJobs/dailyBytes",
+      )
+      .transform((val) =>
+        val
+          .split(",")
+          .map((entry) => entry.trim())
+          .filter(Boolean)
+          .map((entry) => {
+            const separator = entry.lastIndexOf("=");
+            const [maxActiveJobs, dailyBytes] = entry
+              .slice(separator + 1)
+              .split("/")
+              .map(Number);
+            return {
+              clientId: entry.slice(0, separator),
+              maxActiveJobs,
+              dailyBytes,
+            };
+          }),
+      ),
+    // Clients allowed to publish files through /v1/files (comma-separated
+    // clientIds); uploads are refused when unset
+    UPLOAD_CLIENTS: z
+      .string()
+      .optional()
+      .transform((val) =>
+        val
+          ? val
+              .split(",")
+              .map((entry) => entry.trim())
+              .filter(Boolean)
+          : undefined,
+      ),
+  })
+  .refine((val) => val.SERVICE_ROLE === "all" || val.REDIS_URL, {
+    message: "SERVICE_ROLE=api and SERVICE_ROLE=worker require REDIS_URL",
+    path: ["SERVICE_ROLE"],
+  })
+  // Only authenticated clients can be told apart
+  .refine(
+    (val) =>
+      val.UPLOAD_CLIENTS === undefined ||
+      val.API_KEYS.length > 0 ||
+      val.JWT_HS256_SECRET !== undefined ||
+      val.JWT_RS256_PUBLIC_KEY !== undefined,
+    {
+      message:
+        "UPLOAD_CLIENTS requires API_KEYS, JWT_HS256_SECRET or JWT_RS256_PUBLIC_KEY",
+      path: ["UPLOAD_CLIENTS"],
+    },
+  )
+  .refine((val) => val.JOB_STORE !== "redis" || val.REDIS_URL, {
+    message: "JOB_STORE=redis requires REDIS_URL",
+    path: ["JOB_STORE"],
+  })
+  // A resumed job without its record would lose its owner and callbackUrl
+  .refine(
+    (val) =>
+      val.LOCAL_QUEUE_JOURNAL_PATH === undefined ||
+      val.REDIS_URL !== undefined ||
+      val.JOB_STORE === "sqlite",
+    {
+      message: "LOCAL_QUEUE_JOURNAL_PATH requires JOB_STORE=sqlite",
+      path: ["LOCAL_QUEUE_JOURNAL_PATH"],
+    },
+  )
+  // Separate processes only see each other's jobs through Redis
+  .refine(
+    (val) =>
+      val.SERVICE_ROLE === "all" ||
+      val.JOB_STORE === undefined ||
+      val.JOB_STORE === "redis",
+    {
+      message:
+        "SERVICE_ROLE=api and SERVICE_ROLE=worker require JOB_STORE=redis",
+      path: ["JOB_STORE"],
+    },
+  )
+  // Workers write the bundles the API process serves, so both need the same
+  // files: S3, or a LOCAL_STORAGE_DIR they share. Mock uploads stay in each
+  // process's own temp dir.
+  .refine(
+    (val) =>
+      val.SERVICE_ROLE === "all" ||
+      (val.STORAGE_DRIVER === "s3" && val.S3_BUCKET_NAME) ||
+      val.STORAGE_DRIVER === "local",
+    {
+      message:
+        "SERVICE_ROLE=api and SERVICE_ROLE=worker require STORAGE_DRIVER=s3 with S3_BUCKET_NAME, or STORAGE_DRIVER=local with a shared LOCAL_STORAGE_DIR",
+      path: ["STORAGE_DRIVER"],
+    },
+  )
+  // Workers sign the URLs the API process verifies
+  .refine(
+    (val) =>
+      val.SERVICE_ROLE === "all" ||
+      val.STORAGE_DRIVER !== "local" ||
+      val.LOCAL_STORAGE_SIGNING_SECRET,
+    {
+      message:
+        "Local storage with a split SERVICE_ROLE requires LOCAL_STORAGE_SIGNING_SECRET",
+      path: ["LOCAL_STORAGE_SIGNING_SECRET"],
+    },
+  )
+  // ...and point them at the API process, since they serve no /storage/*
+  .refine(
+    (val) =>
+      val.SERVICE_ROLE !== "worker" ||
+      val.STORAGE_DRIVER !== "local" ||
+      val.LOCAL_STORAGE_PUBLIC_URL,
+    {
+      message:
+        "Local storage with SERVICE_ROLE=worker requires LOCAL_STORAGE_PUBLIC_URL",
+      path: ["LOCAL_STORAGE_PUBLIC_URL"],
+    },
+  );
 
 // Parse and validate environment
 const env = EnvSchema.parse(process.env);
 
-// S3 Client
-const s3Client = new S3Client({
-  region: env.S3_REGION,
-  ...(env.S3_ENDPOINT && { endpoint: env.S3_ENDPOINT }),
-  ...(env.S3_ACCESS_KEY_ID &&
-    env.S3_SECRET_ACCESS_KEY && {
-      credentials: {
-        accessKeyId: env.S3_ACCESS_KEY_ID,
-        secretAccessKey: env.S3_SECRET_ACCESS_KEY,
-      },
-    }),
-  forcePathStyle: env.S3_FORCE_PATH_STYLE,
-});
+// Which halves of the service this process runs
+const runsApi = env.SERVICE_ROLE !== "worker";
+const runsWorkers = env.SERVICE_ROLE !== "api";
 
 // Redis connection for BullMQ (optional - falls back to in-memory if not configured)
 let redisConnection: Redis | null = null;
@@ -88,22 +424,164 @@ if (env.REDIS_URL) {
 }
 
 // Job status types
-type JobStatus = "queued" | "processing" | "completed" | "failed";
+type JobStatus =
+  | "queued"
+  | "processing"
+  | "completed"
+  | "partially_completed"
+  | "failed"
+  | "cancelled";
 
-interface JobResult {
+// Per-file sub-task status within a batch job
+type FileStatus =
+  | "pending"
+  | "processing"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+interface FileResult {
   file_id: number;
+  status: FileStatus;
+  size: number | null;
+  downloadUrl: string | null;
+  sha256: string | null; // Hex SHA-256 of the object, verified by the worker
+  message: string;
+}
+
+interface JobResult {
+  file_id: number; // First file_id of the batch (kept for single-file clients)
   status: JobStatus;
   progress: number;
   downloadUrl: string | null;
+  sha256: string | null; // Hex SHA-256 of the object behind downloadUrl
   size: number | null;
   processingTimeMs: number | null;
   message: string;
+  bundle: boolean; // Available files are combined into a single ZIP archive
+  files: FileResult[];
+  totalFiles: number;
+  completedFiles: number;
+  failedFiles: number;
+  attempt: number; // Processing attempt, 0 until a worker first picks the job up
+  maxAttempts: number;
+  lastError: string | null; // Most recent storage error, kept across retries
+  callbackUrl: string | null; // Receives the final status once the job finishes
+  owner: string | null; // Client that created the job (null without auth)
   createdAt: string;
   updatedAt: string;
 }
 
-// In-memory job store (fallback when Redis is not available)
-const inMemoryJobs = new Map<string, JobResult>();
+// Statuses after which a job never changes again
+const TERMINAL_STATUSES: readonly JobStatus[] = [
+  "completed",
+  "partially_completed",
+  "failed",
+  "cancelled",
+];
+const isTerminalStatus = (status: JobStatus): boolean =>
+  TERMINAL_STATUSES.includes(status);
+
+// Job records are kept for 24 hours after their last update
+const JOB_TTL_MS = 86400 * 1000;
+
+const jobStoreKind = env.JOB_STORE ?? (redisConnection ? "redis" : "memory");
+let jobStore: JobStore<JobResult>;
+if (jobStoreKind === "redis" && redisConnection) {
+  jobStore = createRedisJobStore(redisConnection, { ttlMs: JOB_TTL_MS });
+} else if (jobStoreKind === "sqlite") {
+  jobStore = await createSqliteJobStore({
+    filename: env.JOB_STORE_PATH,
+    ttlMs: JOB_TTL_MS,
+  });
+} else {
+  jobStore = createMemoryJobStore({
+    ttlMs: JOB_TTL_MS,
+    maxEntries: env.JOB_STORE_MAX_ENTRIES,
+  });
+}
+console.log(`[JobStore] Using ${jobStoreKind} job store`);
+
+// Job update fan-out: local listeners subscribe per jobId. With Redis, updates
+// are published to a channel so listeners on every instance receive them.
+const JOB_EVENTS_CHANNEL = "job-events";
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+let redisSubscriber: Redis | null = null;
+if (redisConnection) {
+  redisSubscriber = redisConnection.duplicate();
+  redisSubscriber.subscribe(JOB_EVENTS_CHANNEL).catch((err: unknown) => {
+    console.error("[Redis] Failed to subscribe to job events:", err);
+  });
+  // Anything can publish on the channel, so malformed events are dropped
+  redisSubscriber.on("message", (_channel: string, message: string) => {
+    let event: { jobId?: unknown; status?: unknown } | null;
+    try {
+      event = JSON.parse(message) as typeof event;
+    } catch {
+      console.warn("[Redis] Ignoring a job event that is not JSON");
+      return;
+    }
+    if (
+      typeof event?.jobId !== "string" ||
+      typeof event.status !== "object" ||
+      event.status === null
+    ) {
+      console.warn("[Redis] Ignoring a job event without a jobId and status");
+      return;
+    }
+    jobEvents.emit(event.jobId, event.status as JobResult);
+  });
+}
+
+// Aborted when graceful shutdown starts
+const shutdownController = new AbortController();
+
+// Subscribe to updates for a job; returns an unsubscribe function
+const subscribeToJob = (
+  jobId: string,
+  listener: (status: JobResult) => void,
+): (() => void) => {
+  jobEvents.on(jobId, listener);
+  return () => {
+    jobEvents.off(jobId, listener);
+  };
+};
+
+// Resolve with the next update for a job, or null once the timeout elapses
+// or the signal aborts
+const waitForJobUpdate = (
+  jobId: string,
+  timeoutMs: number,
+  signal: AbortSignal,
+): Promise<JobResult | null> =>
+  new Promise((resolve) => {
+    const finish = (status: JobResult | null) => {
+      clearTimeout(timer);
+      unsubscribe();
+      signal.removeEventListener("abort", onAbort);
+      resolve(status);
+    };
+    const onAbort = () => {
+      finish(null);
+    };
+    const unsubscribe = subscribeToJob(jobId, finish);
+    const timer = setTimeout(onAbort, timeoutMs);
+    signal.addEventListener("abort", onAbort);
+    if (signal.aborted) onAbort();
+  });
+
+// Strong ETag derived from the stored job state
+const computeJobEtag = (status: JobResult): string =>
+  `"${createHash("sha1").update(JSON.stringify(status)).digest("base64url")}"`;
+
+// If-None-Match may list several ETags, or "*"; weak prefixes are ignored
+const etagMatches = (ifNoneMatch: string, etag: string): boolean =>
+  ifNoneMatch
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === etag);
 
 // Download queue and worker (only if Redis is configured)
 const QUEUE_NAME = "download-jobs";
@@ -113,34 +591,272 @@ if (redisConnection) {
   downloadQueue = new Queue(QUEUE_NAME, { connection: redisConnection });
 }
 
-// Helper to get job status from Redis or in-memory store
-const getJobStatus = async (jobId: string): Promise<JobResult | null> => {
+// Prometheus metrics, served from /metrics
+const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+const httpRequestsTotal = new Counter({
+  name: "http_requests_total",
+  help: "HTTP requests by route and status",
+  labelNames: ["method", "route", "status"] as const,
+  registers: [metricsRegistry],
+});
+
+const httpRequestDuration = new Histogram({
+  name: "http_request_duration_seconds",
+  help: "HTTP request latency by route and status",
+  labelNames: ["method", "route", "status"] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+// Read from the download queue at scrape time. Every process has one: the
+// BullMQ queue with Redis (API-only processes included), the local queue without
+new Gauge({
+  name: "download_queue_jobs",
+  help: "Download jobs by queue state",
+  labelNames: ["state"] as const,
+  registers: [metricsRegistry],
+  async collect() {
+    const queue = downloadQueue ?? localDownloadQueue;
+    if (!queue) return;
+    const counts = await queue.getJobCounts(
+      "waiting",
+      "active",
+      "delayed",
+      "completed",
+      "failed",
+    );
+    for (const [state, count] of Object.entries(counts)) {
+      this.set({ state }, count);
+    }
+  },
+});
+
+const jobProcessingDuration = new Histogram({
+  name: "download_job_processing_seconds",
+  help: "Processing time of finished download jobs by final status",
+  labelNames: ["status"] as const,
+  buckets: [1, 5, 10, 30, 60, 120, 180, 300, 600],
+  registers: [metricsRegistry],
+});
+
+const s3OperationDuration = new Histogram({
+  name: "s3_operation_duration_seconds",
+  help: "S3 call latency by operation and outcome",
+  labelNames: ["operation", "outcome"] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [metricsRegistry],
+});
+
+const s3OperationErrors = new Counter({
+  name: "s3_operation_errors_total",
+  help: "Failed S3 calls by operation and error name",
+  labelNames: ["operation", "error"] as const,
+  registers: [metricsRegistry],
+});
+
+// Per-client quotas. Requests without auth all count against one shared
+// anonymous bucket. Active jobs are tracked per client from creation until
+// setJobStatus writes a terminal status; with Redis they live in a sorted set
+// scored by reservation time, so entries left behind by a lost job age out
+// with the job keys.
+interface ClientQuota {
+  maxActiveJobs: number; // 0 = unlimited
+  dailyBytes: number; // 0 = unlimited
+}
+
+const getClientQuota = (owner: string | null): ClientQuota =>
+  env.CLIENT_QUOTAS.find((quota) => quota.clientId === owner) ?? {
+    maxActiveJobs: env.QUOTA_MAX_ACTIVE_JOBS,
+    dailyBytes: env.QUOTA_DAILY_BYTES,
+  };
+
+const activeJobsKey = (owner: string | null): string =>
+  `quota:active-jobs:${owner ?? ""}`;
+
+// Daily byte usage is bucketed by UTC day
+const usageDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+const dailyBytesKey = (owner: string | null, day: string): string =>
+  `quota:daily-bytes:${owner ?? ""}:${day}`;
+
+// Start of the next UTC day, when the daily byte budget resets
+const nextUsageReset = (date: Date): Date =>
+  new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1),
+  );
+
+// In-memory quota usage (fallback when Redis is not available)
+const inMemoryActiveJobs = new Map<string, Set<string>>();
+const inMemoryDailyBytes = new Map<string, number>();
+
+// Take an active-job slot for a new job. Returns false (and takes nothing)
+// when the client already has `limit` active jobs; 0 means unlimited.
+const reserveActiveJob = async (
+  owner: string | null,
+  jobId: string,
+  limit: number,
+): Promise<boolean> => {
   if (redisConnection) {
-    const data = await redisConnection.get(`job:${jobId}`);
-    if (data) {
-      return JSON.parse(data) as JobResult;
+    const key = activeJobsKey(owner);
+    const now = Date.now();
+    const results = await redisConnection
+      .multi()
+      .zremrangebyscore(key, "-inf", now - 86400 * 1000)
+      .zadd(key, now, jobId)
+      .zcard(key)
+      .expire(key, 86400)
+      .exec();
+    const count = Number(results?.[2]?.[1] ?? 0);
+    if (limit > 0 && count > limit) {
+      await redisConnection.zrem(key, jobId);
+      return false;
     }
-    return null;
+    return true;
   }
-  return inMemoryJobs.get(jobId) ?? null;
+
+  const jobs = inMemoryActiveJobs.get(owner ?? "") ?? new Set<string>();
+  if (limit > 0 && jobs.size >= limit) return false;
+  jobs.add(jobId);
+  inMemoryActiveJobs.set(owner ?? "", jobs);
+  return true;
 };
 
-// Helper to set job status
-const setJobStatus = async (
+const releaseActiveJob = async (
+  owner: string | null,
+  jobId: string,
+): Promise<void> => {
+  if (redisConnection) {
+    await redisConnection.zrem(activeJobsKey(owner), jobId);
+    return;
+  }
+  const jobs = inMemoryActiveJobs.get(owner ?? "");
+  jobs?.delete(jobId);
+  if (jobs?.size === 0) inMemoryActiveJobs.delete(owner ?? "");
+};
+
+const countActiveJobs = async (owner: string | null): Promise<number> => {
+  if (redisConnection) {
+    return redisConnection.zcount(
+      activeJobsKey(owner),
+      Date.now() - 86400 * 1000,
+      "+inf",
+    );
+  }
+  return inMemoryActiveJobs.get(owner ?? "")?.size ?? 0;
+};
+
+// Add the bytes of a file made available to its owner's usage for today.
+// Returns false (and adds nothing) when they would take the usage past
+// `limit`; 0 means unlimited.
+const reserveDailyBytes = async (
+  owner: string | null,
+  bytes: number,
+  limit: number,
+): Promise<boolean> => {
+  if (bytes <= 0) return true;
+  const day = usageDay(new Date());
+  const key = dailyBytesKey(owner, day);
+  if (redisConnection) {
+    // Buckets outlive their day, then expire on their own
+    const results = await redisConnection
+      .multi()
+      .incrby(key, bytes)
+      .expire(key, 2 * 86400)
+      .exec();
+    const used = Number(results?.[0]?.[1] ?? 0);
+    if (limit > 0 && used > limit) {
+      await redisConnection.decrby(key, bytes);
+      return false;
+    }
+    return true;
+  }
+  // Drop buckets from previous days
+  for (const storedKey of inMemoryDailyBytes.keys()) {
+    if (!storedKey.endsWith(`:${day}`)) inMemoryDailyBytes.delete(storedKey);
+  }
+  const used = (inMemoryDailyBytes.get(key) ?? 0) + bytes;
+  if (limit > 0 && used > limit) return false;
+  inMemoryDailyBytes.set(key, used);
+  return true;
+};
+
+// Take bytes back off the owner's usage for today, for files of a job that
+// failed or was cancelled after they were counted
+const refundDailyBytes = async (
+  owner: string | null,
+  bytes: number,
+): Promise<void> => {
+  if (bytes <= 0) return;
+  const key = dailyBytesKey(owner, usageDay(new Date()));
+  if (redisConnection) {
+    const results = await redisConnection
+      .multi()
+      .decrby(key, bytes)
+      .expire(key, 2 * 86400)
+      .exec();
+    // Bytes counted on an earlier day are not taken off today's usage
+    const used = Number(results?.[0]?.[1] ?? 0);
+    if (used < 0) await redisConnection.incrby(key, -used);
+    return;
+  }
+  const used = (inMemoryDailyBytes.get(key) ?? 0) - bytes;
+  if (used > 0) inMemoryDailyBytes.set(key, used);
+  else inMemoryDailyBytes.delete(key);
+};
+
+const getDailyBytes = async (owner: string | null): Promise<number> => {
+  const key = dailyBytesKey(owner, usageDay(new Date()));
+  if (redisConnection) {
+    return Number((await redisConnection.get(key)) ?? 0);
+  }
+  return inMemoryDailyBytes.get(key) ?? 0;
+};
+
+// Helper to get job status from the job store
+const getJobStatus = (jobId: string): Promise<JobResult | null> =>
+  jobStore.get(jobId);
+
+// Notify subscribers of a status that was just written
+const publishJobStatus = async (
   jobId: string,
   status: JobResult,
 ): Promise<void> => {
   if (redisConnection) {
-    // Store for 24 hours
-    await redisConnection.set(
-      `job:${jobId}`,
-      JSON.stringify(status),
-      "EX",
-      86400,
+    await redisConnection.publish(
+      JOB_EVENTS_CHANNEL,
+      JSON.stringify({ jobId, status }),
     );
   } else {
-    inMemoryJobs.set(jobId, status);
+    jobEvents.emit(jobId, status);
+  }
+  // A finished job frees its owner's active-job slot
+  if (isTerminalStatus(status.status)) {
+    await releaseActiveJob(status.owner, jobId);
+  }
+};
+
+// Helper to set job status and notify subscribers
+const setJobStatus = async (
+  jobId: string,
+  status: JobResult,
+): Promise<void> => {
+  await jobStore.set(jobId, status);
+  await publishJobStatus(jobId, status);
+};
+
+// setJobStatus for a job that can finish elsewhere at the same time (a cancel
+// racing its worker). A finished record is left alone and this resolves false.
+const updateJobStatus = async (
+  jobId: string,
+  status: JobResult,
+): Promise<boolean> => {
+  if (!(await jobStore.setUnlessStatus(jobId, status, TERMINAL_STATUSES))) {
+    return false;
   }
+  await publishJobStatus(jobId, status);
+  return true;
 };
 
 // Initialize OpenTelemetry SDK
@@ -162,6 +878,44 @@ app.use(async (c, next) => {
   await next();
 });
 
+// Request metrics, labelled with the matched route pattern rather than the
+// raw path so job IDs do not create a series each
+app.use(async (c, next) => {
+  const end = httpRequestDuration.startTimer();
+  await next();
+  const labels = {
+    method: c.req.method,
+    route: routePath(c, -1),
+    status: String(c.res.status),
+  };
+  end(labels);
+  httpRequestsTotal.inc(labels);
+});
+
+// Worker processes only serve probes and metrics
+const WORKER_ROLE_PATHS = new Set([
+  "/health",
+  "/health/live",
+  "/health/ready",
+  "/metrics",
+]);
+if (!runsApi) {
+  app.use(async (c, next) => {
+    if (WORKER_ROLE_PATHS.has(c.req.path)) {
+      await next();
+      return;
+    }
+    return c.json(
+      {
+        error: "Not Found",
+        message: "This instance runs SERVICE_ROLE=worker and serves no API",
+        requestId: c.get("requestId") as string | undefined,
+      },
+      404,
+    );
+  });
+}
+
 // Security headers middleware (helmet-like)
 app.use(secureHeaders());
 
@@ -169,9 +923,20 @@ app.use(secureHeaders());
 app.use(
   cors({
     origin: env.CORS_ORIGINS,
-    allowMethods: ["GET", "POST", "OPTIONS"],
-    allowHeaders: ["Content-Type", "Authorization", "X-Request-ID"],
+    allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+    allowHeaders: [
+      "Content-Type",
+      "Authorization",
+      "X-Request-ID",
+      "If-None-Match",
+      "Idempotency-Key",
+      "X-API-Key",
+    ],
     exposeHeaders: [
+      "Content-Disposition",
+      "Content-Range",
+      "ETag",
+      "Idempotent-Replayed",
       "X-Request-ID",
       "X-RateLimit-Limit",
       "X-RateLimit-Remaining",
@@ -180,19 +945,87 @@ app.use(
   }),
 );
 
-// Request timeout middleware
-app.use(timeout(env.REQUEST_TIMEOUT_MS));
+// Request timeout middleware; /v1/download/start enforces its own
+// DOWNLOAD_START_TIMEOUT_MS, and uploads to /storage/* take as long as
+// their bodies do
+const requestTimeout = timeout(env.REQUEST_TIMEOUT_MS);
+app.use((c, next) =>
+  c.req.path === "/v1/download/start" ||
+  (c.req.method === "PUT" && c.req.path.startsWith("/storage/"))
+    ? next()
+    : requestTimeout(c, next),
+);
+
+// Forwarding headers are only believed when the connection comes from a
+// trusted proxy; otherwise anyone could pick their own rate limit key
+const trustedProxies = new BlockList();
+for (const entry of env.TRUSTED_PROXIES) {
+  const [address, prefix] = entry.split("/") as [string, string | undefined];
+  const family = isIP(address) === 6 ? "ipv6" : "ipv4";
+  if (prefix === undefined) {
+    trustedProxies.addAddress(address, family);
+  } else {
+    trustedProxies.addSubnet(address, Number(prefix), family);
+  }
+}
+
+// IPv4 clients on a dual-stack socket show up as ::ffff:a.b.c.d
+const normalizeIp = (address: string): string =>
+  address.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, "");
+
+const isTrustedProxy = (address: string): boolean => {
+  const family = isIP(address);
+  return (
+    family !== 0 &&
+    trustedProxies.check(address, family === 6 ? "ipv6" : "ipv4")
+  );
+};
+
+// Client IP: X-Forwarded-For is walked right to left past trusted proxies,
+// so entries a client prepended itself are never used
+const getClientIp = (c: Context): string => {
+  const remote = normalizeIp(getConnInfo(c).remote.address ?? "");
+  if (!isTrustedProxy(remote)) return remote || "unknown";
+
+  const forwarded = (c.req.header("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => normalizeIp(entry.trim()))
+    .filter(Boolean);
+  for (const address of [...forwarded].reverse()) {
+    if (!isTrustedProxy(address)) return address;
+  }
+  // Every hop is a trusted proxy; the farthest one is the best guess
+  return forwarded.at(0) ?? c.req.header("x-real-ip") ?? remote;
+};
+
+// Per-route limit overrides; each route gets its own counter
+const routeRateLimits = env.RATE_LIMIT_ROUTES.map(({ path, limit }) => ({
+  path,
+  limit,
+  matches: path.endsWith("*")
+    ? (requestPath: string) => requestPath.startsWith(path.slice(0, -1))
+    : (requestPath: string) => requestPath === path,
+}));
+
+const getRouteRateLimit = (c: Context) =>
+  routeRateLimits.find((route) => route.matches(c.req.path));
 
 // Rate limiting middleware
 app.use(
   rateLimiter({
     windowMs: env.RATE_LIMIT_WINDOW_MS,
-    limit: env.RATE_LIMIT_MAX_REQUESTS,
+    limit: (c) => getRouteRateLimit(c)?.limit ?? env.RATE_LIMIT_MAX_REQUESTS,
     standardHeaders: "draft-6",
     keyGenerator: (c) =>
-      c.req.header("x-forwarded-for")?.split(",")[0]?.trim() ??
-      c.req.header("x-real-ip") ??
-      "anonymous",
+      `${getRouteRateLimit(c)?.path ?? "*"}:${getClientIp(c)}`,
+    // Probes must answer even when the Redis-backed store cannot
+    skip: (c) =>
+      c.req.path === "/health/live" || c.req.path === "/health/ready",
+    ...(redisConnection && {
+      store: createRedisRateLimitStore(redisConnection, {
+        windowMs: env.RATE_LIMIT_WINDOW_MS,
+      }),
+    }),
   }),
 );
 
@@ -210,6 +1043,97 @@ app.use(
   }),
 );
 
+// Authentication: X-API-Key (see API_KEYS) or an HS256/RS256 Bearer JWT whose
+// `sub` names the client. Disabled when no credentials are configured.
+const authEnabled =
+  env.API_KEYS.length > 0 ||
+  env.JWT_HS256_SECRET !== undefined ||
+  env.JWT_RS256_PUBLIC_KEY !== undefined;
+
+// Each algorithm has its own key, so a token cannot pick a weaker one
+const verifyJwtSubject = async (token: string): Promise<string | null> => {
+  try {
+    const { alg } = decode(token).header;
+    const key =
+      alg === "HS256"
+        ? env.JWT_HS256_SECRET
+        : alg === "RS256"
+          ? env.JWT_RS256_PUBLIC_KEY
+          : undefined;
+    if (!key) return null;
+    const payload = await verify(token, key, {
+      alg,
+      iss: env.JWT_ISSUER,
+      aud: env.JWT_AUDIENCE,
+    });
+    return typeof payload.sub === "string" && payload.sub ? payload.sub : null;
+  } catch {
+    return null;
+  }
+};
+
+// Resolve the calling client; null when credentials are missing or invalid
+const authenticateClient = async (
+  apiKey: string | undefined,
+  authorization: string | undefined,
+): Promise<string | null> => {
+  if (apiKey) {
+    return (
+      env.API_KEYS.find((entry) => safeEqual(entry.key, apiKey))?.clientId ??
+      null
+    );
+  }
+  const token = /^Bearer\s+(.+)$/i.exec(authorization ?? "")?.[1];
+  return token ? verifyJwtSubject(token) : null;
+};
+
+app.use("/v1/*", async (c, next) => {
+  if (!authEnabled) {
+    c.set("clientId", null);
+    await next();
+    return;
+  }
+  // Browsers cannot set headers on a WebSocket upgrade, so it may carry the
+  // same credentials as ?api_key= or ?access_token= instead
+  const upgrade = c.req.header("upgrade")?.toLowerCase() === "websocket";
+  const accessToken = upgrade ? c.req.query("access_token") : undefined;
+  const clientId = await authenticateClient(
+    c.req.header("x-api-key") ?? (upgrade ? c.req.query("api_key") : undefined),
+    c.req.header("authorization") ??
+      (accessToken === undefined ? undefined : `Bearer ${accessToken}`),
+  );
+  if (!clientId) {
+    c.header("WWW-Authenticate", 'Bearer realm="api"');
+    return c.json(
+      {
+        error: "Unauthorized",
+        message: "Missing or invalid API key or bearer token",
+        requestId: c.get("requestId"),
+      },
+      401,
+    );
+  }
+  c.set("clientId", clientId);
+  await next();
+});
+
+// Jobs are only visible to the client that created them; others get a 404
+// so job IDs cannot be probed
+const ownsJob = (job: JobResult, clientId: string | null): boolean =>
+  job.owner === clientId;
+
+// Security schemes shown by the docs' "Authorize" button
+app.openAPIRegistry.registerComponent("securitySchemes", "ApiKeyAuth", {
+  type: "apiKey",
+  in: "header",
+  name: "X-API-Key",
+});
+app.openAPIRegistry.registerComponent("securitySchemes", "BearerAuth", {
+  type: "http",
+  scheme: "bearer",
+  bearerFormat: "JWT",
+});
+
 // Error response schema for OpenAPI
 const ErrorResponseSchema = z
   .object({
@@ -243,23 +1167,66 @@ const MessageResponseSchema = z
   })
   .openapi("MessageResponse");
 
+// Dependencies that are not configured (no Redis) report "disabled"
+const HealthCheckStatusSchema = z.enum(["ok", "error", "disabled"]);
+
 const HealthResponseSchema = z
   .object({
     status: z.enum(["healthy", "unhealthy"]),
     checks: z.object({
       storage: z.enum(["ok", "error"]),
+      redis: HealthCheckStatusSchema.optional(),
+      queue: HealthCheckStatusSchema.optional(),
+      worker: HealthCheckStatusSchema.optional(),
+    }),
+    latencyMs: z
+      .object({
+        storage: z.number().int(),
+        redis: z.number().int().nullable(),
+        queue: z.number().int().nullable(),
+        worker: z.number().int().nullable(),
+      })
+      .optional()
+      .openapi({ description: "How long each readiness check took" }),
+    shuttingDown: z.boolean().optional().openapi({
+      description: "Set once graceful shutdown has started",
+    }),
+    role: z.enum(["api", "worker", "all"]).optional().openapi({
+      description: "SERVICE_ROLE of the instance that answered",
     }),
   })
   .openapi("HealthResponse");
 
+const LivenessResponseSchema = z
+  .object({
+    status: z.literal("healthy"),
+    uptimeSeconds: z.number().int(),
+  })
+  .openapi("LivenessResponse");
+
+// File IDs accepted everywhere (10K to 100M), and the same for path parameters
+const FileIdSchema = z.number().int().min(10000).max(100000000);
+const FileIdParamSchema = z.coerce.number().int().min(10000).max(100000000);
+
 // Download API Schemas
 const DownloadInitiateRequestSchema = z
   .object({
     file_ids: z
-      .array(z.number().int().min(10000).max(100000000))
+      .array(FileIdSchema)
       .min(1)
       .max(1000)
       .openapi({ description: "Array of file IDs (10K to 100M)" }),
+    bundle: z.boolean().default(false).openapi({
+      description:
+        "Combine all available files into a single ZIP archive with one download URL",
+    }),
+    callbackUrl: z
+      .url({ protocol: /^https?$/ })
+      .optional()
+      .openapi({
+        description:
+          "Receives a signed POST with the final job status once the job finishes",
+      }),
   })
   .openapi("DownloadInitiateRequest");
 
@@ -273,12 +1240,9 @@ const DownloadInitiateResponseSchema = z
 
 const DownloadCheckRequestSchema = z
   .object({
-    file_id: z
-      .number()
-      .int()
-      .min(10000)
-      .max(100000000)
-      .openapi({ description: "Single file ID to check (10K to 100M)" }),
+    file_id: FileIdSchema.openapi({
+      description: "Single file ID to check (10K to 100M)",
+    }),
   })
   .openapi("DownloadCheckRequest");
 
@@ -300,12 +1264,9 @@ const DownloadCheckResponseSchema = z
 
 const DownloadStartRequestSchema = z
   .object({
-    file_id: z
-      .number()
-      .int()
-      .min(10000)
-      .max(100000000)
-      .openapi({ description: "File ID to download (10K to 100M)" }),
+    file_id: FileIdSchema.openapi({
+      description: "File ID to download (10K to 100M)",
+    }),
   })
   .openapi("DownloadStartRequest");
 
@@ -330,14 +1291,47 @@ const DownloadStartResponseSchema = z
   })
   .openapi("DownloadStartResponse");
 
+// Per-file breakdown of a batch job
+const JobFileResultSchema = z
+  .object({
+    file_id: z.number().int(),
+    status: z
+      .enum(["pending", "processing", "completed", "failed", "cancelled"])
+      .openapi({ description: "Status of this file within the job" }),
+    size: z
+      .number()
+      .int()
+      .nullable()
+      .openapi({ description: "File size in bytes" }),
+    downloadUrl: z.string().nullable().openapi({
+      description: "Presigned download URL (available when completed)",
+    }),
+    sha256: z.string().nullable().openapi({
+      description:
+        "Hex SHA-256 of the file, checked against stored checksums (available when completed; for bundles, once the archive is written)",
+    }),
+    message: z.string().openapi({ description: "Status message" }),
+  })
+  .openapi("JobFileResult");
+
 // Job status response schema (for polling)
+const JobStatusSchema = z.enum([
+  "queued",
+  "processing",
+  "completed",
+  "partially_completed",
+  "failed",
+  "cancelled",
+]);
+
 const JobStatusResponseSchema = z
   .object({
     jobId: z.string().openapi({ description: "Unique job identifier" }),
-    file_id: z.number().int(),
-    status: z
-      .enum(["queued", "processing", "completed", "failed"])
-      .openapi({ description: "Current job status" }),
+    file_id: z
+      .number()
+      .int()
+      .openapi({ description: "First file ID of the batch" }),
+    status: JobStatusSchema.openapi({ description: "Current job status" }),
     progress: z
       .number()
       .int()
@@ -345,22 +1339,273 @@ const JobStatusResponseSchema = z
       .max(100)
       .openapi({ description: "Progress percentage (0-100)" }),
     downloadUrl: z.string().nullable().openapi({
-      description: "Presigned download URL (available when completed)",
+      description:
+        "Presigned download URL for single-file or bundled jobs (available when completed)",
+    }),
+    sha256: z.string().nullable().openapi({
+      description:
+        "Hex SHA-256 of the object behind downloadUrl, to verify the downloaded bytes",
     }),
     size: z
       .number()
       .int()
       .nullable()
-      .openapi({ description: "File size in bytes" }),
+      .openapi({ description: "Total size of available files in bytes" }),
     processingTimeMs: z.number().int().nullable().openapi({
       description: "Time taken to process (null if still processing)",
     }),
     message: z.string().openapi({ description: "Status message" }),
-    createdAt: z.string().openapi({ description: "Job creation timestamp" }),
-    updatedAt: z.string().openapi({ description: "Last update timestamp" }),
-  })
+    bundle: z
+      .boolean()
+      .openapi({ description: "Whether files are bundled into one archive" }),
+    files: z.array(JobFileResultSchema).openapi({
+      description:
+        "Per-file breakdown of the job, updated when an attempt ends; completedFiles and failedFiles count progress while it runs",
+    }),
+    totalFiles: z.number().int().openapi({ description: "Files in the job" }),
+    completedFiles: z
+      .number()
+      .int()
+      .openapi({ description: "Files resolved successfully" }),
+    failedFiles: z
+      .number()
+      .int()
+      .openapi({ description: "Files that could not be resolved" }),
+    attempt: z.number().int().openapi({
+      description: "Current processing attempt (0 until processing starts)",
+    }),
+    maxAttempts: z
+      .number()
+      .int()
+      .openapi({ description: "Attempts allowed for transient failures" }),
+    lastError: z.string().nullable().openapi({
+      description: "Most recent storage error, if any attempt hit one",
+    }),
+    callbackUrl: z.string().nullable().openapi({
+      description: "Webhook that receives the final job status",
+    }),
+    owner: z.string().nullable().openapi({
+      description: "Client that created the job",
+    }),
+    createdAt: z.string().openapi({ description: "Job creation timestamp" }),
+    updatedAt: z.string().openapi({ description: "Last update timestamp" }),
+  })
   .openapi("JobStatusResponse");
 
+// Job list schemas
+const JobListQuerySchema = z.object({
+  status: JobStatusSchema.optional().openapi({
+    description: "Only jobs with this status",
+  }),
+  file_id: z.coerce
+    .number()
+    .int()
+    .optional()
+    .openapi({ description: "Only jobs that include this file ID" }),
+  createdAfter: z.iso
+    .datetime()
+    .optional()
+    .openapi({ description: "Only jobs created at or after this time" }),
+  createdBefore: z.iso
+    .datetime()
+    .optional()
+    .openapi({ description: "Only jobs created at or before this time" }),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .default(20)
+    .openapi({ description: "Maximum number of jobs to return" }),
+  cursor: z
+    .string()
+    .optional()
+    .openapi({ description: "nextCursor from the previous page" }),
+});
+
+const JobListResponseSchema = z
+  .object({
+    jobs: z.array(JobStatusResponseSchema),
+    nextCursor: z.string().nullable().openapi({
+      description:
+        "Pass as cursor to continue; null once there are no more jobs",
+    }),
+  })
+  .openapi("JobListResponse");
+
+// Webhook delivery log schemas
+const WebhookDeliveryAttemptSchema = z
+  .object({
+    attempt: z.number().int().openapi({ description: "Attempt number" }),
+    status: z.enum(["delivered", "failed"]),
+    statusCode: z.number().int().nullable().openapi({
+      description: "HTTP status returned by the receiver",
+    }),
+    error: z.string().nullable().openapi({
+      description: "Why the attempt failed",
+    }),
+    durationMs: z.number().int(),
+    attemptedAt: z.string(),
+  })
+  .openapi("WebhookDeliveryAttempt");
+
+const WebhookDeliveriesResponseSchema = z
+  .object({
+    jobId: z.string(),
+    callbackUrl: z.string().nullable(),
+    deliveries: z.array(WebhookDeliveryAttemptSchema),
+  })
+  .openapi("WebhookDeliveriesResponse");
+
+// Quota usage schema
+const UsageResponseSchema = z
+  .object({
+    clientId: z.string().nullable().openapi({
+      description: "Authenticated client (null when auth is disabled)",
+    }),
+    activeJobs: z.object({
+      used: z.number().int().openapi({
+        description: "Jobs currently queued or processing",
+      }),
+      limit: z.number().int().nullable().openapi({
+        description: "Maximum active jobs (null = unlimited)",
+      }),
+    }),
+    dailyBytes: z.object({
+      used: z.number().int().openapi({
+        description: "Bytes of files made available today (UTC)",
+      }),
+      limit: z.number().int().nullable().openapi({
+        description: "Daily byte budget (null = unlimited)",
+      }),
+      resetsAt: z.string().openapi({
+        description: "When the daily byte budget resets",
+      }),
+    }),
+  })
+  .openapi("UsageResponse");
+
+// File upload schemas
+const MAX_UPLOAD_PARTS = 10000; // S3's limit per multipart upload
+
+const FileUploadRequestSchema = z
+  .object({
+    file_id: FileIdSchema.openapi({
+      description: "File ID to publish (10K to 100M)",
+    }),
+    contentType: z
+      .string()
+      .regex(/^[\w.+-]+\/[\w.+-]+$/, "contentType must be a MIME type")
+      .default("application/zip")
+      .openapi({ description: "Content-Type the upload must be sent with" }),
+    parts: z.number().int().min(1).max(MAX_UPLOAD_PARTS).optional().openapi({
+      description:
+        "Upload in this many parts (multipart, at least 5 MiB each but the last); omit for a single PUT",
+    }),
+  })
+  .openapi("FileUploadRequest");
+
+const FileUploadResponseSchema = z
+  .object({
+    file_id: z.number().int(),
+    s3Key: z.string(),
+    contentType: z.string(),
+    uploadUrl: z.string().nullable().openapi({
+      description: "PUT the whole file here (single uploads)",
+    }),
+    uploadHeaders: z.record(z.string(), z.string()).openapi({
+      description:
+        "Headers the PUT to uploadUrl must send; it fails with 412 if the file exists by then",
+    }),
+    uploadId: z.string().nullable().openapi({
+      description: "Multipart upload ID to pass back on completion",
+    }),
+    parts: z
+      .array(
+        z.object({
+          partNumber: z.number().int(),
+          uploadUrl: z.string(),
+        }),
+      )
+      .openapi({
+        description:
+          "PUT each part to its URL and keep the response's ETag header (multipart uploads)",
+      }),
+    expiresAt: z.string().openapi({
+      description: "When the upload URLs stop working",
+    }),
+  })
+  .openapi("FileUploadResponse");
+
+const FileUploadCompleteRequestSchema = z
+  .object({
+    uploadId: z.string().min(1).optional().openapi({
+      description: "Multipart upload ID; omit for single uploads",
+    }),
+    parts: z
+      .array(
+        z.object({
+          partNumber: z.number().int().min(1).max(MAX_UPLOAD_PARTS),
+          etag: z.string().min(1),
+        }),
+      )
+      .min(1)
+      .max(MAX_UPLOAD_PARTS)
+      .optional()
+      .openapi({
+        description: "Every uploaded part with its ETag, in ascending order",
+      }),
+  })
+  .refine((val) => (val.uploadId === undefined) === (val.parts === undefined), {
+    message: "uploadId and parts must be given together",
+    path: ["parts"],
+  })
+  .openapi("FileUploadCompleteRequest");
+
+const FileMetadataResponseSchema = z
+  .object({
+    file_id: z.number().int(),
+    s3Key: z.string(),
+    size: z
+      .number()
+      .int()
+      .nullable()
+      .openapi({ description: "File size in bytes" }),
+    contentType: z.string().nullable(),
+    etag: z.string().nullable(),
+    lastModified: z.string().nullable().openapi({
+      description: "When the file was last written",
+    }),
+    storageClass: z.string().nullable(),
+    metadata: z.record(z.string(), z.string()).openapi({
+      description: "User metadata stored with the object (x-amz-meta-*)",
+    }),
+    checksums: z
+      .object({
+        crc32: z.string().nullable(),
+        crc32c: z.string().nullable(),
+        crc64nvme: z.string().nullable(),
+        sha1: z.string().nullable(),
+        sha256: z.string().nullable(),
+      })
+      .openapi({
+        description:
+          "Base64 checksums stored with the object; null for algorithms it was not uploaded with",
+      }),
+  })
+  .openapi("FileMetadataResponse");
+
+const FileUploadCompleteResponseSchema = z
+  .object({
+    file_id: z.number().int(),
+    s3Key: z.string(),
+    size: z.number().int().nullable(),
+    contentType: z.string().nullable(),
+    etag: z.string().nullable(),
+    lastModified: z.string().nullable(),
+  })
+  .openapi("FileUploadCompleteResponse");
+
 // Input sanitization for S3 keys - prevent path traversal
 const sanitizeS3Key = (fileId: number): string => {
   // Ensure fileId is a valid integer within bounds (already validated by Zod)
@@ -369,25 +1614,180 @@ const sanitizeS3Key = (fileId: number): string => {
   return `downloads/${String(sanitizedId)}.zip`;
 };
 
-// S3 health check
-const checkS3Health = async (): Promise<boolean> => {
-  if (!env.S3_BUCKET_NAME) return true; // Mock mode
+// Inverse of sanitizeS3Key; null for keys that are not downloadable files
+const fileIdFromS3Key = (s3Key: string): number | null => {
+  const match = /^downloads\/(\d+)\.zip$/.exec(s3Key);
+  return match ? Number(match[1]) : null;
+};
+
+// MOCK_STORAGE_FIXTURES file format
+const MockStorageFixturesSchema = z.object({
+  files: z.array(
+    z.object({
+      fileId: z.number().int().min(10000).max(100000000),
+      size: z.number().int().min(0),
+      contentType: z.string().default("application/zip"),
+      // Simulated S3 error for HeadObject and GetObject...
+      error: z
+        .enum(
+          Object.keys(MOCK_STORAGE_ERRORS) as [
+            keyof typeof MOCK_STORAGE_ERRORS,
+          ],
+        )
+        .optional(),
+      // ...for the first failTimes calls only (every call when omitted)
+      failTimes: z.number().int().min(1).optional(),
+    }),
+  ),
+});
+
+// Constant-time string comparison for secrets
+const safeEqual = (a: string, b: string): boolean => {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+};
+
+// S3 error classification. NotFound is a definitive answer; throttling, 5xx
+// and network errors are transient and worth retrying; anything else
+// (e.g. AccessDenied) fails the file without a retry.
+const TRANSIENT_S3_ERROR_NAMES = new Set([
+  "SlowDown",
+  "Throttling",
+  "ThrottlingException",
+  "RequestTimeout",
+  "InternalError",
+  "ServiceUnavailable",
+]);
+const TRANSIENT_NETWORK_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "EPIPE",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+]);
+
+const isTransientS3Error = (err: unknown): boolean => {
+  if (err instanceof S3ServiceException) {
+    const statusCode = err.$metadata.httpStatusCode ?? 0;
+    return (
+      err.$retryable !== undefined ||
+      statusCode >= 500 ||
+      statusCode === 429 ||
+      TRANSIENT_S3_ERROR_NAMES.has(err.name)
+    );
+  }
+  if (!(err instanceof Error)) return false;
+  const { code } = err as NodeJS.ErrnoException;
+  return (
+    (code !== undefined && TRANSIENT_NETWORK_ERROR_CODES.has(code)) ||
+    err.name === "TimeoutError"
+  );
+};
+
+const describeError = (err: unknown): string =>
+  err instanceof Error ? `${err.name}: ${err.message}` : String(err);
+
+// Time an S3 call for /metrics; NotFound is an answer, not an error
+const observeS3 = async <T>(
+  operation: S3Operation,
+  call: () => Promise<T>,
+): Promise<T> => {
+  const end = s3OperationDuration.startTimer({ operation });
   try {
-    // Use a lightweight HEAD request on a known path
-    const command = new HeadObjectCommand({
-      Bucket: env.S3_BUCKET_NAME,
-      Key: "__health_check_marker__",
-    });
-    await s3Client.send(command);
-    return true;
+    const result = await call();
+    end({ outcome: "success" });
+    return result;
   } catch (err) {
-    // NotFound is fine - bucket is accessible
-    if (err instanceof Error && err.name === "NotFound") return true;
-    // AccessDenied or other errors indicate connection issues
-    return false;
+    if (isS3NotFoundError(err)) {
+      end({ outcome: "not_found" });
+    } else {
+      end({ outcome: "error" });
+      s3OperationErrors.inc({
+        operation,
+        error: err instanceof Error ? err.name : "Unknown",
+      });
+    }
+    throw err;
   }
 };
 
+// Storage backend. The local and mock drivers serve their own download URLs.
+const storageDriver =
+  env.STORAGE_DRIVER === "s3" && !env.S3_BUCKET_NAME
+    ? "mock"
+    : env.STORAGE_DRIVER;
+const storageUrls = {
+  publicUrl:
+    env.LOCAL_STORAGE_PUBLIC_URL ?? `http://localhost:${String(env.PORT)}`,
+  secret:
+    env.LOCAL_STORAGE_SIGNING_SECRET ?? randomBytes(32).toString("base64url"),
+  // Multipart uploads are dropped once their part URLs expire
+  uploadTtlMs: env.PRESIGNED_URL_EXPIRY_SECONDS * 1000,
+};
+let signedStorage: SignedStorageBackend | null = null;
+let storage: StorageBackend;
+if (storageDriver !== "s3") {
+  if (storageDriver === "local") {
+    if (!env.LOCAL_STORAGE_SIGNING_SECRET) {
+      console.warn(
+        "[Storage] LOCAL_STORAGE_SIGNING_SECRET is not set; download URLs stop working after a restart",
+      );
+    }
+    signedStorage = await createLocalStorage({
+      root: env.LOCAL_STORAGE_DIR,
+      ...storageUrls,
+    });
+  } else {
+    const fixtures = env.MOCK_STORAGE_FIXTURES
+      ? MockStorageFixturesSchema.parse(
+          JSON.parse(await readFile(env.MOCK_STORAGE_FIXTURES, "utf8")),
+        ).files
+      : null;
+    signedStorage = createMockStorage({
+      fixtures,
+      seed: env.MOCK_STORAGE_SEED,
+      fileIdOf: fileIdFromS3Key,
+      ...storageUrls,
+      // Bundles are dropped once their download URLs have expired
+      objectTtlMs: env.PRESIGNED_URL_EXPIRY_SECONDS * 1000,
+    });
+    console.log(
+      `[Storage] Mock files from ${env.MOCK_STORAGE_FIXTURES ?? `seed "${env.MOCK_STORAGE_SEED}"`}`,
+    );
+  }
+  storage = signedStorage;
+} else {
+  storage = createS3Storage({
+    client: new S3Client({
+      region: env.S3_REGION,
+      ...(env.S3_ENDPOINT && { endpoint: env.S3_ENDPOINT }),
+      ...(env.S3_ACCESS_KEY_ID &&
+        env.S3_SECRET_ACCESS_KEY && {
+          credentials: {
+            accessKeyId: env.S3_ACCESS_KEY_ID,
+            secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+          },
+        }),
+      forcePathStyle: env.S3_FORCE_PATH_STYLE,
+      // Otherwise presigned upload URLs carry the checksum of an empty body
+      requestChecksumCalculation: "WHEN_REQUIRED",
+      // Stored checksums are compared by hashObject, which fails the job
+      // with a ChecksumMismatchError rather than a generic read error
+      responseChecksumValidation: "WHEN_REQUIRED",
+    }),
+    bucket: env.S3_BUCKET_NAME,
+    observe: observeS3,
+  });
+}
+console.log(`[Storage] Using ${storage.name} storage`);
+
+// Storage health check
+const checkS3Health = (): Promise<boolean> => storage.checkHealth();
+
 // S3 availability check
 const checkS3Availability = async (
   fileId: number,
@@ -398,77 +1798,360 @@ const checkS3Availability = async (
 }> => {
   const s3Key = sanitizeS3Key(fileId);
 
-  // If no bucket configured, use mock mode
-  if (!env.S3_BUCKET_NAME) {
-    const available = fileId % 7 === 0;
-    return {
-      available,
-      s3Key: available ? s3Key : null,
-      size: available ? Math.floor(Math.random() * 10000000) + 1000 : null,
-    };
-  }
-
-  try {
-    const command = new HeadObjectCommand({
-      Bucket: env.S3_BUCKET_NAME,
-      Key: s3Key,
-    });
-    const response = await s3Client.send(command);
-    return {
-      available: true,
-      s3Key,
-      size: response.ContentLength ?? null,
-    };
-  } catch {
+  // Only a missing object means "not available"; anything else is a storage
+  // failure the caller must handle (see isTransientS3Error)
+  const info = await storage.headObject(s3Key);
+  if (!info) {
     return {
       available: false,
       s3Key: null,
       size: null,
     };
   }
+  return {
+    available: true,
+    s3Key,
+    size: info.size,
+  };
 };
 
-// Generate presigned S3 URL for downloading
-const generatePresignedUrl = async (s3Key: string): Promise<string | null> => {
-  if (!env.S3_BUCKET_NAME) {
-    // Mock mode - return a fake URL
-    return `https://storage.example.com/${s3Key}?token=${crypto.randomUUID()}`;
+// HeadObject results behind GET /v1/files/:fileId, reused for
+// FILE_METADATA_CACHE_SECONDS (missing files included). The oldest entries
+// are dropped beyond the limit.
+const FILE_METADATA_CACHE_MAX_ENTRIES = 1000;
+const fileMetadataCache = new Map<
+  string,
+  { info: StorageObjectInfo | null; expiresAt: number }
+>();
+
+const getFileMetadata = async (
+  s3Key: string,
+): Promise<StorageObjectInfo | null> => {
+  const cached = fileMetadataCache.get(s3Key);
+  if (cached && cached.expiresAt > Date.now()) return cached.info;
+
+  const info = await storage.headObject(s3Key);
+  if (env.FILE_METADATA_CACHE_SECONDS > 0) {
+    fileMetadataCache.delete(s3Key);
+    fileMetadataCache.set(s3Key, {
+      info,
+      expiresAt: Date.now() + env.FILE_METADATA_CACHE_SECONDS * 1000,
+    });
+    for (const oldest of fileMetadataCache.keys()) {
+      if (fileMetadataCache.size <= FILE_METADATA_CACHE_MAX_ENTRIES) break;
+      fileMetadataCache.delete(oldest);
+    }
   }
+  return info;
+};
 
+// Generate a presigned (S3) or signed (local and mock) download URL
+const generatePresignedUrl = async (s3Key: string): Promise<string | null> => {
   try {
-    const command = new GetObjectCommand({
-      Bucket: env.S3_BUCKET_NAME,
-      Key: s3Key,
-    });
-    const url = await getSignedUrl(s3Client, command, {
-      expiresIn: env.PRESIGNED_URL_EXPIRY_SECONDS,
-    });
-    return url;
+    return await storage.getDownloadUrl(
+      s3Key,
+      env.PRESIGNED_URL_EXPIRY_SECONDS,
+    );
   } catch (err) {
-    console.error("[S3] Failed to generate presigned URL:", err);
+    console.error("[Storage] Failed to generate download URL:", err);
     return null;
   }
 };
 
-// Process a download job (used by worker)
+// A completed job must not point at bytes that differ from what was stored
+const checksumMismatchError = (message: string): Error => {
+  const err = new Error(message);
+  err.name = "ChecksumMismatchError";
+  return err;
+};
+
+const isChecksumMismatchError = (err: unknown): err is Error =>
+  err instanceof Error && err.name === "ChecksumMismatchError";
+
+// What a single read of an object produced
+interface ObjectRead {
+  sha256: string; // Hex
+  bytes: number;
+}
+
+// A read must match the HEAD the object was found with: its size and, when
+// the object carries a full-object SHA-256 checksum, that digest. Checksums
+// of multipart uploads cover the parts ("<base64>-<parts>") and cannot be
+// compared.
+const verifyObjectRead = (
+  s3Key: string,
+  info: StorageObjectInfo,
+  read: ObjectRead,
+): void => {
+  if (info.size !== null && read.bytes !== info.size) {
+    throw checksumMismatchError(
+      `Read ${String(read.bytes)} bytes of ${s3Key} (ETag ${info.etag ?? "unknown"}) but its size is ${String(info.size)}`,
+    );
+  }
+  const stored = info.checksums.sha256;
+  if (stored && !stored.includes("-")) {
+    const expected = Buffer.from(stored, "base64").toString("hex");
+    if (expected !== read.sha256) {
+      throw checksumMismatchError(
+        `SHA-256 of ${s3Key} is ${read.sha256} but its stored checksum is ${expected}`,
+      );
+    }
+  }
+};
+
+// Hex SHA-256 of an object found with `info`, streamed through the hash and
+// verified against it. Returns null if the signal aborts first.
+const hashObject = async (
+  s3Key: string,
+  info: StorageObjectInfo,
+  signal: AbortSignal,
+): Promise<string | null> => {
+  const hash = createHash("sha256");
+  let bytes = 0;
+  for await (const chunk of await storage.getObject(s3Key)) {
+    if (signal.aborted) return null;
+    hash.update(chunk as Buffer);
+    bytes += (chunk as Buffer).length;
+  }
+  const sha256 = hash.digest("hex");
+  verifyObjectRead(s3Key, info, { sha256, bytes });
+  return sha256;
+};
+
+// Stream available objects into one ZIP archive and store it next to them.
+// Entries are appended one at a time and the archive is streamed out as it
+// grows, so memory stays flat regardless of how large the bundle gets. Each
+// object is hashed on its way into the archive and handed to `onEntry` once
+// its entry is written; a rejection there abandons the bundle.
+const createBundle = async (
+  jobId: string,
+  fileIds: number[],
+  onEntry: (index: number, read: ObjectRead) => Promise<void>,
+): Promise<{ bundleKey: string; sha256: string }> => {
+  const bundleKey = `bundles/${jobId}.zip`;
+
+  // Source objects are already compressed, so entries are stored as-is
+  const archive = archiver("zip", { store: true });
+  const body = new PassThrough();
+  archive.pipe(body);
+  // Hashed on the way out, so the archive is never read back
+  const hash = createHash("sha256");
+  archive.on("data", (chunk: Buffer) => {
+    hash.update(chunk);
+  });
+
+  const uploadController = new AbortController();
+  const uploadDone = storage.putObject(bundleKey, body, {
+    contentType: "application/zip",
+    signal: uploadController.signal,
+  });
+  // Surface upload failures while entries are still being appended
+  uploadDone.catch((err: unknown) => {
+    archive.destroy(err instanceof Error ? err : new Error(String(err)));
+  });
+
+  try {
+    for (const [index, fileId] of fileIds.entries()) {
+      const source = await storage.getObject(sanitizeS3Key(fileId));
+      const entryHash = createHash("sha256");
+      let bytes = 0;
+      const hashing = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          entryHash.update(chunk);
+          bytes += chunk.length;
+          callback(null, chunk);
+        },
+      });
+      source.once("error", (err) => hashing.destroy(err));
+      archive.append(source.pipe(hashing), { name: `${String(fileId)}.zip` });
+      await once(archive, "entry");
+      await onEntry(index, { sha256: entryHash.digest("hex"), bytes });
+    }
+    await archive.finalize();
+    await uploadDone;
+  } catch (err) {
+    archive.abort();
+    uploadController.abort();
+    await uploadDone.catch(() => undefined);
+    throw err;
+  }
+
+  console.log(
+    `[Storage] Uploaded bundle key=${bundleKey} files=${String(fileIds.length)} bytes=${String(archive.pointer())}`,
+  );
+  return { bundleKey, sha256: hash.digest("hex") };
+};
+
+// Derive the final job status from its per-file results
+const resolveJobStatus = (completedFiles: number, totalFiles: number) => {
+  if (completedFiles === totalFiles) return "completed" as const;
+  if (completedFiles === 0) return "failed" as const;
+  return "partially_completed" as const;
+};
+
+// Mark the unfinished parts of a job as cancelled
+const markJobCancelled = (job: JobResult, processingTimeMs: number | null) => {
+  job.status = "cancelled";
+  job.processingTimeMs = processingTimeMs;
+  job.message =
+    processingTimeMs === null
+      ? "Job cancelled before processing started"
+      : `Job cancelled after ${(processingTimeMs / 1000).toFixed(1)} seconds`;
+  for (const file of job.files) {
+    if (file.status === "pending" || file.status === "processing") {
+      file.status = "cancelled";
+      file.message = "Cancelled";
+    }
+  }
+};
+
+// Bytes of `files` counted against their owner's daily budget: a file is
+// given its size when it is made available, and keeps it if it fails later
+const countedBytes = (files: FileResult[]): number =>
+  files.reduce((sum, file) => sum + (file.size ?? 0), 0);
+
+// Prefix of the message on files that failed hashObject's checksum comparison
+const INTEGRITY_FAILED_MESSAGE = "Integrity check failed";
+
+// Delay before the attempt that follows a failed `attempt` (exponential, capped)
+const getRetryDelayMs = (attempt: number): number =>
+  Math.min(
+    env.DOWNLOAD_RETRY_BACKOFF_MS * 2 ** (attempt - 1),
+    env.DOWNLOAD_RETRY_BACKOFF_MAX_MS,
+  );
+
+// Process a download job (used by worker). Cancellation is signalled through
+// the job's own status updates, which reach this worker from any instance.
+// Rejects with the storage error when a transient failure should be retried;
+// the job is back in "queued" by then and the caller schedules the next attempt.
 const processDownloadJob = async (
   jobId: string,
-  fileId: number,
+  fileIds: number[],
+  bundle = false,
+  attempt = 1,
+  maxAttempts = env.DOWNLOAD_MAX_ATTEMPTS,
+): Promise<void> => {
+  const cancelController = new AbortController();
+  const unsubscribe = subscribeToJob(jobId, (status) => {
+    if (status.status === "cancelled") cancelController.abort();
+  });
+  try {
+    await runDownloadJob(
+      jobId,
+      fileIds,
+      bundle,
+      attempt,
+      maxAttempts,
+      cancelController.signal,
+    );
+  } finally {
+    unsubscribe();
+  }
+};
+
+const runDownloadJob = async (
+  jobId: string,
+  fileIds: number[],
+  bundle: boolean,
+  attempt: number,
+  maxAttempts: number,
+  signal: AbortSignal,
 ): Promise<void> => {
   const startTime = Date.now();
+  const existing = await getJobStatus(jobId);
+  const totalFiles = fileIds.length;
 
-  // Update status to processing
-  await setJobStatus(jobId, {
-    file_id: fileId,
+  // A cancelled job, or a finished one redelivered or replayed from the
+  // journal, is left as it is (and takes no active-job slot)
+  if (existing && isTerminalStatus(existing.status)) {
+    console.log(`[Download Worker] Skipping ${existing.status} job=${jobId}`);
+    return;
+  }
+  // In-memory quotas forget the jobs a restart resumes from the local
+  // queue's journal, so their active-job slot is taken again
+  if (!redisConnection && existing) {
+    await reserveActiveJob(existing.owner, jobId, 0);
+  }
+
+  // Files resolved by an earlier attempt keep their result; a retry only
+  // revisits the ones a transient failure left unresolved
+  const files = fileIds.map((fileId, index): FileResult => {
+    const previous = existing?.files[index];
+    return previous?.file_id === fileId &&
+      (previous.status === "completed" || previous.status === "failed")
+      ? previous
+      : {
+          file_id: fileId,
+          status: "pending",
+          size: null,
+          downloadUrl: null,
+          sha256: null,
+          message: "Waiting to be processed",
+        };
+  });
+  const completedFiles = files.filter((f) => f.status === "completed");
+
+  // The worker owns the job record while it runs; every change goes through persist()
+  const job: JobResult = {
+    file_id: fileIds[0],
     status: "processing",
     progress: 0,
     downloadUrl: null,
-    size: null,
+    sha256: null,
+    size:
+      completedFiles.length > 0
+        ? completedFiles.reduce((sum, f) => sum + (f.size ?? 0), 0)
+        : null,
     processingTimeMs: null,
-    message: "Processing download...",
-    createdAt: new Date().toISOString(),
+    message:
+      attempt > 1
+        ? `Retrying download (attempt ${String(attempt)} of ${String(maxAttempts)})...`
+        : "Processing download...",
+    bundle,
+    files,
+    totalFiles,
+    completedFiles: completedFiles.length,
+    failedFiles: files.filter((f) => f.status === "failed").length,
+    attempt,
+    maxAttempts,
+    lastError: existing?.lastError ?? null,
+    callbackUrl: existing?.callbackUrl ?? null,
+    owner: existing?.owner ?? null,
+    createdAt: existing?.createdAt ?? new Date().toISOString(),
     updatedAt: new Date().toISOString(),
-  });
+  };
+  // Set once the stored record turns out to be finished (cancelled from
+  // another instance before the signal got here); nothing is written after
+  let superseded = false;
+  // The files as last written. Progress writes carry the counters but keep
+  // these, so a large batch is not rewritten (and published) once per file.
+  let storedFiles: FileResult[] = existing?.files ?? [];
+  // Writes go out one at a time, so a progress write still in flight cannot
+  // land after a later one
+  let lastWrite: Promise<unknown> = Promise.resolve();
+  // Resolves null instead of overwriting a finished record
+  const persist = ({ withFiles = true } = {}): Promise<JobResult | null> => {
+    const write = lastWrite.then(async () => {
+      if (superseded) return null;
+      const { files: currentFiles, ...fields } = job;
+      const snapshot: JobResult = {
+        ...structuredClone(fields),
+        files: withFiles ? structuredClone(currentFiles) : storedFiles,
+        updatedAt: new Date().toISOString(),
+      };
+      if (await updateJobStatus(jobId, snapshot)) {
+        storedFiles = snapshot.files;
+        return snapshot;
+      }
+      superseded = true;
+      return null;
+    });
+    lastWrite = write.catch(() => undefined);
+    return write;
+  };
+
+  // Update status to processing
+  await persist();
 
   // Get random delay and log it
   const delayMs = getRandomDelay();
@@ -476,99 +2159,753 @@ const processDownloadJob = async (
   const minDelaySec = (env.DOWNLOAD_DELAY_MIN_MS / 1000).toFixed(0);
   const maxDelaySec = (env.DOWNLOAD_DELAY_MAX_MS / 1000).toFixed(0);
   console.log(
-    `[Download Worker] Processing job=${jobId} file_id=${String(fileId)} | delay=${delaySec}s (range: ${minDelaySec}s-${maxDelaySec}s)`,
+    `[Download Worker] Processing job=${jobId} files=${String(totalFiles)} | delay=${delaySec}s (range: ${minDelaySec}s-${maxDelaySec}s)`,
   );
 
-  // Simulate progress updates during the delay
+  // Simulated progress during the delay and the per-file counters are
+  // written at most once per interval; the files follow when the job ends
   const progressIntervalMs = Math.max(1000, delayMs / 10);
-  let progress = 0;
+  let persistedCounters = "";
   const progressInterval = setInterval(() => {
-    progress = Math.min(progress + 10, 90);
-    void (async () => {
-      const currentStatus = await getJobStatus(jobId);
-      if (currentStatus?.status === "processing") {
-        await setJobStatus(jobId, {
-          ...currentStatus,
-          progress,
-          updatedAt: new Date().toISOString(),
-        });
-      }
-    })();
+    const elapsedProgress = Math.floor(
+      ((Date.now() - startTime) / Math.max(delayMs, 1)) * 100,
+    );
+    job.progress = Math.max(job.progress, Math.min(elapsedProgress, 90));
+    const counters = `${String(job.progress)}:${String(job.completedFiles)}:${String(job.failedFiles)}`;
+    if (counters === persistedCounters) return;
+    persistedCounters = counters;
+    persist({ withFiles: false }).catch((err: unknown) => {
+      console.error(
+        `[Download Worker] Failed to save progress job=${jobId}:`,
+        err,
+      );
+    });
   }, progressIntervalMs);
 
-  // Simulate long-running download process
-  await sleep(delayMs);
-  clearInterval(progressInterval);
+  const isCancelled = (): boolean => signal.aborted || superseded;
 
-  // Check if file is available in S3
-  const s3Result = await checkS3Availability(fileId);
-  const processingTimeMs = Date.now() - startTime;
+  // Storage errors that failed files outright (not retried, or out of attempts)
+  let storageErrors = 0;
+  // Bytes count against the owner's daily budget as each file becomes
+  // available; the first file that does not fit stops the job there
+  const { dailyBytes: dailyBytesLimit } = getClientQuota(job.owner);
+  let budgetExceeded = false;
+  // Files whose bytes did not match their stored checksum, earlier attempts
+  // included; any of them fails the whole job
+  let integrityErrors = job.files.filter((f) =>
+    f.message.startsWith(INTEGRITY_FAILED_MESSAGE),
+  ).length;
+  const failIntegrity = (file: FileResult, err: Error): void => {
+    file.message = `${INTEGRITY_FAILED_MESSAGE}: ${err.message}`;
+    integrityErrors++;
+    console.error(
+      `[Download Worker] Integrity check failed job=${jobId} file_id=${String(file.file_id)}: ${err.message}`,
+    );
+  };
+  // HEAD results of this attempt, for verifying the bundle's reads
+  const objectInfo = new Map<number, StorageObjectInfo>();
 
-  if (s3Result.available && s3Result.s3Key) {
-    // Generate presigned URL
-    const downloadUrl = await generatePresignedUrl(s3Result.s3Key);
+  // A transient storage failure either puts the job back in the queue for
+  // another attempt (returns true) or, on the last attempt, fails what is left
+  const deferToRetry = async (err: unknown): Promise<boolean> => {
+    job.lastError = describeError(err);
+    if (attempt >= maxAttempts) {
+      for (const file of job.files) {
+        if (file.status === "pending" || file.status === "processing") {
+          file.status = "failed";
+          file.message = `Storage unavailable: ${job.lastError}`;
+          job.failedFiles++;
+          storageErrors++;
+        }
+      }
+      console.error(
+        `[Download Worker] Giving up job=${jobId} after ${String(attempt)} attempts: ${job.lastError}`,
+      );
+      return false;
+    }
 
-    await setJobStatus(jobId, {
-      file_id: fileId,
-      status: "completed",
-      progress: 100,
-      downloadUrl,
-      size: s3Result.size,
-      processingTimeMs,
-      message: `Download ready after ${(processingTimeMs / 1000).toFixed(1)} seconds`,
-      createdAt:
-        (await getJobStatus(jobId))?.createdAt ?? new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    });
+    const retryDelayMs = getRetryDelayMs(attempt);
+    job.status = "queued";
+    job.message = `Storage temporarily unavailable, retrying in ${(retryDelayMs / 1000).toFixed(1)}s (attempt ${String(attempt + 1)} of ${String(maxAttempts)})`;
+    if (!(await persist())) return false;
+    console.warn(
+      `[Download Worker] Transient storage error job=${jobId} attempt=${String(attempt)}/${String(maxAttempts)}: ${job.lastError}`,
+    );
+    return true;
+  };
+
+  // The simulated delay is spread across the files still to be resolved
+  const pendingFiles = job.files.filter((f) => f.status === "pending").length;
+  const perFileDelayMs = Math.floor(delayMs / Math.max(pendingFiles, 1));
+  let transientError: Error | null = null;
+
+  try {
+    for (const [index, file] of job.files.entries()) {
+      if (file.status !== "pending") continue;
+      file.status = "processing";
+      file.message = "Processing file...";
+
+      // Simulate long-running download process
+      await sleep(perFileDelayMs, signal);
+      if (isCancelled()) break;
+
+      try {
+        // One HEAD per file: the read that hashes it is checked against it.
+        // Bundled files are hashed on their way into the archive instead.
+        const s3Key = sanitizeS3Key(file.file_id);
+        const info = await storage.headObject(s3Key);
+        if (info) objectInfo.set(file.file_id, info);
+        const sha256 =
+          info && !bundle ? await hashObject(s3Key, info, signal) : null;
+        if (isCancelled()) break;
+        const downloadUrl =
+          info && (bundle || sha256 !== null)
+            ? await generatePresignedUrl(s3Key)
+            : null;
+        if (
+          downloadUrl &&
+          !(await reserveDailyBytes(
+            job.owner,
+            info?.size ?? 0,
+            dailyBytesLimit,
+          ))
+        ) {
+          budgetExceeded = true;
+          break;
+        }
 
+        if (downloadUrl) {
+          file.status = "completed";
+          file.size = info?.size ?? null;
+          file.downloadUrl = downloadUrl;
+          file.sha256 = sha256;
+          file.message = "Download ready";
+          job.completedFiles++;
+          job.size = (job.size ?? 0) + (info?.size ?? 0);
+        } else {
+          file.status = "failed";
+          file.message = info
+            ? "Failed to generate download URL"
+            : "File not found";
+          job.failedFiles++;
+        }
+      } catch (err) {
+        if (isTransientS3Error(err)) {
+          // Left unresolved for the next attempt
+          file.status = "pending";
+          file.message = "Waiting to be retried";
+          transientError = err as Error;
+          break;
+        }
+        job.lastError = describeError(err);
+        file.status = "failed";
+        job.failedFiles++;
+        if (isChecksumMismatchError(err)) {
+          failIntegrity(file, err);
+        } else {
+          file.message = `Storage error: ${job.lastError}`;
+          storageErrors++;
+        }
+      }
+
+      // Aggregate progress never reaches 100 until the job is finalized
+      const fileProgress = Math.floor(((index + 1) / totalFiles) * 100);
+      job.progress = Math.max(job.progress, Math.min(fileProgress, 99));
+    }
+  } finally {
+    clearInterval(progressInterval);
+  }
+
+  // The job finished elsewhere; its record and webhook are already settled.
+  // Whoever finished it accounted for the files it stored, not for the bytes
+  // counted here since.
+  const dropSuperseded = async (): Promise<void> => {
+    await refundDailyBytes(
+      job.owner,
+      countedBytes(job.files) - countedBytes(storedFiles),
+    );
     console.log(
-      `[Download Worker] Completed job=${jobId} file_id=${String(fileId)}, time=${String(processingTimeMs)}ms`,
+      `[Download Worker] Leaving job=${jobId} as stored: it finished (or was cancelled) while processing`,
     );
-  } else {
-    await setJobStatus(jobId, {
-      file_id: fileId,
-      status: "failed",
-      progress: 100,
-      downloadUrl: null,
-      size: null,
-      processingTimeMs,
-      message: `File not found after ${(processingTimeMs / 1000).toFixed(1)} seconds`,
-      createdAt:
-        (await getJobStatus(jobId))?.createdAt ?? new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    });
+  };
 
+  // A cancel keeps the files finished so far but drops everything after them.
+  // None of them count against the daily budget any more.
+  const finishCancelled = async (): Promise<void> => {
+    markJobCancelled(job, Date.now() - startTime);
+    const snapshot = await persist();
+    if (!snapshot) {
+      await dropSuperseded();
+      return;
+    }
+    await refundDailyBytes(job.owner, countedBytes(job.files));
+    await notifyJobFinished(jobId, snapshot);
+    jobProcessingDuration.observe(
+      { status: job.status },
+      (job.processingTimeMs ?? 0) / 1000,
+    );
     console.log(
-      `[Download Worker] Failed job=${jobId} file_id=${String(fileId)}, file not found`,
+      `[Download Worker] Cancelled job=${jobId} after ${String(job.completedFiles + job.failedFiles)}/${String(totalFiles)} files`,
     );
-  }
-};
+  };
 
-// Create BullMQ worker (only if Redis is configured)
-let downloadWorker: Worker | null = null;
-if (redisConnection) {
-  downloadWorker = new Worker(
-    QUEUE_NAME,
-    async (job) => {
-      const { jobId, fileId } = job.data as { jobId: string; fileId: number };
-      await processDownloadJob(jobId, fileId);
-    },
-    {
-      connection: redisConnection,
-      concurrency: 5, // Process up to 5 jobs concurrently
-    },
-  );
+  if (isCancelled()) {
+    await finishCancelled();
+    return;
+  }
 
-  // Worker event handlers
-  downloadWorker.on("completed", (job) => {
-    console.log(`[BullMQ] Job ${String(job.id)} completed`);
-  });
+  if (transientError && (await deferToRetry(transientError))) {
+    throw transientError;
+  }
 
-  downloadWorker.on("failed", (job, err) => {
-    console.error(`[BullMQ] Job ${String(job?.id)} failed:`, err);
+  if (budgetExceeded) {
+    for (const file of job.files) {
+      if (file.status === "pending" || file.status === "processing") {
+        file.status = "failed";
+        file.message = `Daily download budget of ${String(dailyBytesLimit)} bytes is used up`;
+        job.failedFiles++;
+      }
+    }
+    console.log(
+      `[Quota] Stopped job=${jobId} client=${job.owner ?? "anonymous"} at the daily download budget`,
+    );
+  }
+
+  // Combine every available file into one archive behind a single URL
+  let bundleFailed = false;
+  if (bundle && job.completedFiles > 0 && integrityErrors === 0) {
+    job.message = `Bundling ${String(job.completedFiles)} files...`;
+    await persist();
+    const bundled = job.files.filter((f) => f.status === "completed");
+    try {
+      const { bundleKey, sha256 } = await createBundle(
+        jobId,
+        bundled.map((f) => f.file_id),
+        async (index, read) => {
+          const file = bundled[index];
+          const s3Key = sanitizeS3Key(file.file_id);
+          // Files resolved by an earlier attempt were found by its HEAD
+          const info =
+            objectInfo.get(file.file_id) ?? (await storage.headObject(s3Key));
+          try {
+            if (info) verifyObjectRead(s3Key, info, read);
+          } catch (err) {
+            if (!isChecksumMismatchError(err)) throw err;
+            job.lastError = describeError(err);
+            file.status = "failed";
+            file.downloadUrl = null;
+            job.completedFiles--;
+            job.failedFiles++;
+            job.size = (job.size ?? 0) - (file.size ?? 0);
+            failIntegrity(file, err);
+            throw err;
+          }
+          file.sha256 = read.sha256;
+        },
+      );
+      job.downloadUrl = await generatePresignedUrl(bundleKey);
+      job.sha256 = job.downloadUrl ? sha256 : null;
+    } catch (err) {
+      if (
+        isTransientS3Error(err) &&
+        !isCancelled() &&
+        (await deferToRetry(err))
+      ) {
+        throw err;
+      }
+      console.error(`[Download Worker] Bundling failed job=${jobId}:`, err);
+    }
+    bundleFailed = job.downloadUrl === null;
+  } else if (totalFiles === 1) {
+    job.downloadUrl = job.files[0].downloadUrl;
+    job.sha256 = job.files[0].sha256;
+  }
+
+  // The signal may have aborted while the bundle was being built
+  if (isCancelled()) {
+    job.downloadUrl = null;
+    job.sha256 = null;
+    await finishCancelled();
+    return;
+  }
+
+  const processingTimeMs = Date.now() - startTime;
+  const processingSec = (processingTimeMs / 1000).toFixed(1);
+  job.status =
+    bundleFailed || integrityErrors > 0
+      ? "failed"
+      : resolveJobStatus(job.completedFiles, totalFiles);
+  job.progress = 100;
+  job.processingTimeMs = processingTimeMs;
+
+  switch (job.status) {
+    case "completed":
+      job.message = `Download ready after ${processingSec} seconds`;
+      break;
+    case "partially_completed":
+      job.message = `${String(job.completedFiles)} of ${String(totalFiles)} files ready after ${processingSec} seconds`;
+      break;
+    case "failed":
+      if (integrityErrors > 0) {
+        job.message = `${INTEGRITY_FAILED_MESSAGE} for ${String(integrityErrors)} of ${String(totalFiles)} files after ${processingSec} seconds`;
+      } else if (bundleFailed) {
+        job.message = `Failed to build download bundle after ${processingSec} seconds`;
+      } else if (budgetExceeded) {
+        job.message = `Daily download budget used up after ${processingSec} seconds`;
+      } else if (storageErrors > 0) {
+        job.message = `Storage error after ${processingSec} seconds: ${job.lastError ?? "unknown"}`;
+      } else {
+        job.message =
+          totalFiles === 1
+            ? `File not found after ${processingSec} seconds`
+            : `No files found after ${processingSec} seconds`;
+      }
+      break;
+  }
+  const finished = await persist();
+  if (!finished) {
+    await dropSuperseded();
+    return;
+  }
+  // A failed job (a bundle that could not be built, a file that failed its
+  // integrity check) gives back the bytes of the files it had made available
+  if (job.status === "failed") {
+    await refundDailyBytes(job.owner, countedBytes(job.files));
+  }
+  await notifyJobFinished(jobId, finished);
+  jobProcessingDuration.observe(
+    { status: job.status },
+    processingTimeMs / 1000,
+  );
+
+  console.log(
+    `[Download Worker] Finished job=${jobId} status=${job.status} completed=${String(job.completedFiles)}/${String(totalFiles)}, time=${String(processingTimeMs)}ms`,
+  );
+};
+
+// Shared by the BullMQ worker and the local queue. A rejection hands the
+// job back to its queue, which retries it after the "storage" backoff.
+const processQueuedDownload = async (job: {
+  data: unknown;
+  attemptsMade: number;
+  opts: { attempts?: number };
+}): Promise<void> => {
+  const { jobId, fileIds, fileId, bundle } = job.data as {
+    jobId: string;
+    fileIds?: number[];
+    fileId?: number; // Jobs enqueued before batch support
+    bundle?: boolean;
+  };
+  await processDownloadJob(
+    jobId,
+    fileIds ?? [fileId ?? 0],
+    bundle,
+    job.attemptsMade + 1,
+    job.opts.attempts ?? 1,
+  );
+};
+
+// Create BullMQ worker (only if Redis is configured)
+let downloadWorker: Worker | null = null;
+if (redisConnection && runsWorkers) {
+  downloadWorker = new Worker(QUEUE_NAME, processQueuedDownload, {
+    connection: redisConnection,
+    concurrency: env.DOWNLOAD_WORKER_CONCURRENCY,
+    settings: {
+      backoffStrategy: (attemptsMade: number) => getRetryDelayMs(attemptsMade),
+    },
+  });
+
+  // Worker event handlers
+  downloadWorker.on("completed", (job) => {
+    console.log(`[BullMQ] Job ${String(job.id)} completed`);
+  });
+
+  downloadWorker.on("failed", (job, err) => {
+    console.error(`[BullMQ] Job ${String(job?.id)} failed:`, err);
+  });
+}
+
+// Without Redis, the same processor runs on an in-process queue with the
+// same concurrency, retries and events; LOCAL_QUEUE_JOURNAL_PATH lets
+// unfinished jobs survive a restart
+let localDownloadQueue: LocalQueue<unknown> | null = null;
+if (!redisConnection) {
+  localDownloadQueue = new LocalQueue(QUEUE_NAME, processQueuedDownload, {
+    concurrency: env.DOWNLOAD_WORKER_CONCURRENCY,
+    journalPath: env.LOCAL_QUEUE_JOURNAL_PATH,
+    backoffStrategy: getRetryDelayMs,
+  });
+
+  localDownloadQueue.on("completed", (job: { id: string }) => {
+    console.log(`[LocalQueue] Job ${job.id} completed`);
+  });
+
+  localDownloadQueue.on("failed", (job: { id: string }, err: unknown) => {
+    console.error(`[LocalQueue] Job ${job.id} failed:`, err);
+  });
+
+  localDownloadQueue.on("error", (err: unknown) => {
+    console.error("[LocalQueue] Journal write failed:", err);
+  });
+}
+
+// Webhook callbacks: the final status of a job is POSTed to its callbackUrl,
+// signed with WEBHOOK_SECRET. Failed deliveries are retried with exponential
+// backoff (a BullMQ queue of their own when Redis is configured).
+const WEBHOOK_QUEUE_NAME = "webhook-deliveries";
+
+interface WebhookDelivery {
+  jobId: string;
+  callbackUrl: string;
+  payload: string; // Serialized JobStatusResponse, identical on every attempt
+}
+
+interface WebhookDeliveryAttempt {
+  attempt: number;
+  status: "delivered" | "failed";
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+  attemptedAt: string;
+}
+
+// In-memory delivery logs and dedupe set (fallback when Redis is not
+// available). Logs expire with their job and are capped like the memory
+// JobStore, oldest first; a job leaves the dedupe set once its delivery is
+// done or given up.
+const inMemoryWebhookDeliveries = new Map<
+  string,
+  { attempts: WebhookDeliveryAttempt[]; expiresAt: number }
+>();
+const inMemoryScheduledWebhooks = new Set<string>();
+
+const getWebhookDeliveries = async (
+  jobId: string,
+): Promise<WebhookDeliveryAttempt[]> => {
+  if (redisConnection) {
+    const entries = await redisConnection.lrange(
+      `webhook-deliveries:${jobId}`,
+      0,
+      -1,
+    );
+    return entries.map((entry) => JSON.parse(entry) as WebhookDeliveryAttempt);
+  }
+  const log = inMemoryWebhookDeliveries.get(jobId);
+  if (!log || log.expiresAt <= Date.now()) return [];
+  return log.attempts;
+};
+
+const recordWebhookDelivery = async (
+  jobId: string,
+  attempt: WebhookDeliveryAttempt,
+): Promise<void> => {
+  if (redisConnection) {
+    // Kept as long as the job itself
+    const key = `webhook-deliveries:${jobId}`;
+    await redisConnection
+      .multi()
+      .rpush(key, JSON.stringify(attempt))
+      .expire(key, 86400)
+      .exec();
+    return;
+  }
+  const now = Date.now();
+  const log = inMemoryWebhookDeliveries.get(jobId);
+  if (log && log.expiresAt > now) {
+    log.attempts.push(attempt);
+    return;
+  }
+  inMemoryWebhookDeliveries.delete(jobId);
+  inMemoryWebhookDeliveries.set(jobId, {
+    attempts: [attempt],
+    expiresAt: now + JOB_TTL_MS,
+  });
+  // Logs are kept in the order they expire, so the front goes first
+  for (const [storedId, stored] of inMemoryWebhookDeliveries) {
+    if (
+      stored.expiresAt > now &&
+      inMemoryWebhookDeliveries.size <= env.JOB_STORE_MAX_ENTRIES
+    ) {
+      break;
+    }
+    inMemoryWebhookDeliveries.delete(storedId);
+  }
+};
+
+// X-Webhook-Signature: "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}`>".
+// Receivers recompute the HMAC and reject stale timestamps to stop replays.
+const signWebhookPayload = (payload: string, timestamp: number): string => {
+  const digest = createHmac("sha256", env.WEBHOOK_SECRET ?? "")
+    .update(`${String(timestamp)}.${payload}`)
+    .digest("hex");
+  return `t=${String(timestamp)},v1=${digest}`;
+};
+
+// Addresses callbacks never reach unless WEBHOOK_ALLOW_PRIVATE_TARGETS is set:
+// loopback, private, link-local (cloud metadata services), shared, multicast
+// and reserved ranges. IPv4-mapped IPv6 addresses match the IPv4 rules.
+const privateWebhookTargets = new BlockList();
+for (const [address, prefix, family] of [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"],
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  ["224.0.0.0", 3, "ipv4"],
+  ["::", 127, "ipv6"],
+  ["64:ff9b::", 96, "ipv6"],
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"],
+] as const) {
+  privateWebhookTargets.addSubnet(address, prefix, family);
+}
+
+const forbiddenWebhookTargetError = (message: string): Error => {
+  const err = new Error(message);
+  err.name = "ForbiddenWebhookTarget";
+  return err;
+};
+
+const isForbiddenWebhookTargetError = (err: unknown): err is Error =>
+  err instanceof Error && err.name === "ForbiddenWebhookTarget";
+
+const isPrivateAddress = (address: string): boolean => {
+  const family = isIP(address);
+  return (
+    family !== 0 &&
+    privateWebhookTargets.check(address, family === 6 ? "ipv6" : "ipv4")
+  );
+};
+
+// Resolve a callback host, failing when any of its addresses is off limits.
+// Hosts given as an IP address are checked as they are.
+const lookupWebhookTarget = async (
+  hostname: string,
+): Promise<LookupAddress[]> => {
+  // URLs bracket IPv6 addresses
+  const host = hostname.replace(/^\[(.*)\]$/, "$1");
+  const family = isIP(host);
+  const addresses =
+    family === 0
+      ? await dnsLookup(host, { all: true })
+      : [{ address: host, family }];
+  const forbidden = env.WEBHOOK_ALLOW_PRIVATE_TARGETS
+    ? undefined
+    : addresses.find(({ address }) => isPrivateAddress(address));
+  if (forbidden) {
+    throw forbiddenWebhookTargetError(
+      `callbackUrl host ${host} resolves to ${forbidden.address}, which is not a public address`,
+    );
+  }
+  return addresses;
+};
+
+// Check a callbackUrl the way its deliveries will be checked
+const checkCallbackUrl = async (callbackUrl: string): Promise<void> => {
+  const { hostname } = new URL(callbackUrl);
+  if (
+    env.WEBHOOK_ALLOWED_HOSTS.length > 0 &&
+    !env.WEBHOOK_ALLOWED_HOSTS.includes(hostname.toLowerCase())
+  ) {
+    throw forbiddenWebhookTargetError(
+      `callbackUrl host ${hostname} is not in WEBHOOK_ALLOWED_HOSTS`,
+    );
+  }
+  await lookupWebhookTarget(hostname);
+};
+
+// Deliveries resolve their host through this, so the socket only ever
+// connects to an address that was checked, even if DNS answers differently
+// than it did when the job was initiated
+const webhookLookup: LookupFunction = (hostname, options, callback) => {
+  lookupWebhookTarget(hostname).then(
+    (addresses) => {
+      const matching = addresses.filter(
+        ({ family }) => !options.family || family === options.family,
+      );
+      if (options.all) {
+        callback(null, matching);
+      } else if (matching.length > 0) {
+        callback(null, matching[0].address, matching[0].family);
+      } else {
+        callback(
+          Object.assign(new Error(`No address found for ${hostname}`), {
+            code: "ENOTFOUND",
+          }),
+          "",
+        );
+      }
+    },
+    (err: unknown) => {
+      callback(err as NodeJS.ErrnoException, "");
+    },
+  );
+};
+
+// POST a payload without following redirects; resolves the response status
+const postWebhook = async (
+  callbackUrl: string,
+  headers: Record<string, string>,
+  payload: string,
+): Promise<number> => {
+  await checkCallbackUrl(callbackUrl);
+  const url = new URL(callbackUrl);
+  const request = url.protocol === "https:" ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    request(
+      url,
+      {
+        method: "POST",
+        headers: {
+          ...headers,
+          "Content-Length": String(Buffer.byteLength(payload)),
+        },
+        lookup: webhookLookup,
+        signal: AbortSignal.timeout(env.WEBHOOK_TIMEOUT_MS),
+      },
+      (response) => {
+        // Only the status matters
+        response.destroy();
+        resolve(response.statusCode ?? 0);
+      },
+    )
+      .on("error", reject)
+      .end(payload);
+  });
+};
+
+// POST one delivery attempt and log it; throws when the receiver did not accept it
+const deliverWebhook = async (
+  { jobId, callbackUrl, payload }: WebhookDelivery,
+  attempt: number,
+): Promise<void> => {
+  const startTime = Date.now();
+  let statusCode: number | null = null;
+  let error: string | null = null;
+
+  try {
+    statusCode = await postWebhook(
+      callbackUrl,
+      {
+        "Content-Type": "application/json",
+        "X-Webhook-Id": jobId,
+        "X-Webhook-Attempt": String(attempt),
+        "X-Webhook-Signature": signWebhookPayload(
+          payload,
+          Math.floor(startTime / 1000),
+        ),
+      },
+      payload,
+    );
+    if (statusCode < 200 || statusCode > 299) {
+      error = `Receiver responded with HTTP ${String(statusCode)}`;
+    }
+  } catch (err) {
+    error = describeError(err);
+  }
+
+  await recordWebhookDelivery(jobId, {
+    attempt,
+    status: error === null ? "delivered" : "failed",
+    statusCode,
+    error,
+    durationMs: Date.now() - startTime,
+    attemptedAt: new Date(startTime).toISOString(),
+  });
+
+  if (error !== null) {
+    console.warn(
+      `[Webhook] Delivery failed job=${jobId} attempt=${String(attempt)}: ${error}`,
+    );
+    throw new Error(error);
+  }
+  console.log(
+    `[Webhook] Delivered job=${jobId} attempt=${String(attempt)} status=${String(statusCode)}`,
+  );
+};
+
+// Same schedule as BullMQ's built-in exponential backoff
+const getWebhookRetryDelayMs = (attempt: number): number =>
+  env.WEBHOOK_RETRY_BACKOFF_MS * 2 ** (attempt - 1);
+
+let webhookQueue: Queue | null = null;
+let webhookWorker: Worker | null = null;
+if (redisConnection) {
+  webhookQueue = new Queue(WEBHOOK_QUEUE_NAME, {
+    connection: redisConnection,
+  });
+}
+if (redisConnection && runsWorkers) {
+  webhookWorker = new Worker(
+    WEBHOOK_QUEUE_NAME,
+    async (job) => {
+      await deliverWebhook(job.data as WebhookDelivery, job.attemptsMade + 1);
+    },
+    { connection: redisConnection, concurrency: 10 },
+  );
+
+  webhookWorker.on("failed", (job, err) => {
+    if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+      console.error(`[Webhook] Giving up on job=${String(job.id)}:`, err);
+    }
   });
 }
 
+// Without Redis, retries run in-process with the same backoff
+const runInMemoryWebhookDelivery = async (
+  delivery: WebhookDelivery,
+): Promise<void> => {
+  for (let attempt = 1; attempt <= env.WEBHOOK_MAX_ATTEMPTS; attempt++) {
+    try {
+      await deliverWebhook(delivery, attempt);
+      return;
+    } catch {
+      if (attempt === env.WEBHOOK_MAX_ATTEMPTS) break;
+      await sleep(getWebhookRetryDelayMs(attempt), shutdownController.signal);
+      if (shutdownController.signal.aborted) return;
+    }
+  }
+  console.error(`[Webhook] Giving up on job=${delivery.jobId}`);
+};
+
+// Schedule the callback for a finished job. Deliveries are keyed by jobId, so
+// a job finalized twice (a cancel racing its worker) is reported only once.
+// Never throws: a webhook problem must not fail the job itself.
+const notifyJobFinished = async (
+  jobId: string,
+  status: JobResult,
+): Promise<void> => {
+  if (!status.callbackUrl) return;
+  const delivery: WebhookDelivery = {
+    jobId,
+    callbackUrl: status.callbackUrl,
+    payload: JSON.stringify({ jobId, ...status }),
+  };
+
+  try {
+    if (webhookQueue) {
+      await webhookQueue.add("deliver", delivery, {
+        jobId,
+        attempts: env.WEBHOOK_MAX_ATTEMPTS,
+        backoff: { type: "exponential", delay: env.WEBHOOK_RETRY_BACKOFF_MS },
+      });
+    } else if (!inMemoryScheduledWebhooks.has(jobId)) {
+      inMemoryScheduledWebhooks.add(jobId);
+      void runInMemoryWebhookDelivery(delivery).finally(() => {
+        inMemoryScheduledWebhooks.delete(jobId);
+      });
+    }
+  } catch (err) {
+    console.error(`[Webhook] Failed to schedule delivery job=${jobId}:`, err);
+  }
+};
+
 // Random delay helper for simulating long-running downloads
 const getRandomDelay = (): number => {
   if (!env.DOWNLOAD_DELAY_ENABLED) return 0;
@@ -577,8 +2914,18 @@ const getRandomDelay = (): number => {
   return Math.floor(Math.random() * (max - min + 1)) + min;
 };
 
-const sleep = (ms: number): Promise<void> =>
-  new Promise((resolve) => setTimeout(resolve, ms));
+// Resolves after ms, or early once the signal aborts
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
+    if (signal?.aborted) done();
+  });
 
 // Routes
 const rootRoute = createRoute({
@@ -587,6 +2934,7 @@ const rootRoute = createRoute({
   tags: ["General"],
   summary: "Root endpoint",
   description: "Returns a welcome message",
+  security: [],
   responses: {
     200: {
       description: "Successful response",
@@ -605,6 +2953,7 @@ const healthRoute = createRoute({
   tags: ["Health"],
   summary: "Health check endpoint",
   description: "Returns the health status of the service and its dependencies",
+  security: [],
   responses: {
     200: {
       description: "Service is healthy",
@@ -625,6 +2974,55 @@ const healthRoute = createRoute({
   },
 });
 
+const livenessRoute = createRoute({
+  method: "get",
+  path: "/health/live",
+  tags: ["Health"],
+  summary: "Liveness probe",
+  description:
+    "Returns 200 while the process is able to serve requests. Does not touch any dependency.",
+  security: [],
+  responses: {
+    200: {
+      description: "Process is alive",
+      content: {
+        "application/json": {
+          schema: LivenessResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+const readinessRoute = createRoute({
+  method: "get",
+  path: "/health/ready",
+  tags: ["Health"],
+  summary: "Readiness probe",
+  description: `Checks the S3 bucket, Redis PING, queue reachability and the BullMQ worker, each within ${String(env.HEALTH_CHECK_TIMEOUT_MS)}ms.
+    Reports unhealthy as soon as graceful shutdown starts so traffic drains away from the instance.`,
+  security: [],
+  responses: {
+    200: {
+      description: "Service is ready for traffic",
+      content: {
+        "application/json": {
+          schema: HealthResponseSchema,
+        },
+      },
+    },
+    503: {
+      description:
+        "A dependency is unavailable or the service is shutting down",
+      content: {
+        "application/json": {
+          schema: HealthResponseSchema,
+        },
+      },
+    },
+  },
+});
+
 app.openapi(rootRoute, (c) => {
   return c.json({ message: "Hello Hono!" }, 200);
 });
@@ -644,14 +3042,137 @@ app.openapi(healthRoute, async (c) => {
   );
 });
 
+const metricsRoute = createRoute({
+  method: "get",
+  path: "/metrics",
+  tags: ["Health"],
+  summary: "Prometheus metrics",
+  description:
+    "HTTP, queue, job processing and S3 metrics in the Prometheus text format",
+  security: [],
+  responses: {
+    200: {
+      description: "Metrics in the Prometheus exposition format",
+      content: {
+        "text/plain": {
+          schema: z.string(),
+        },
+      },
+    },
+  },
+});
+
+app.openapi(metricsRoute, async (c) => {
+  return c.text(await metricsRegistry.metrics(), 200, {
+    "Content-Type": metricsRegistry.contentType,
+  });
+});
+
+app.openapi(livenessRoute, (c) => {
+  return c.json(
+    { status: "healthy" as const, uptimeSeconds: Math.floor(process.uptime()) },
+    200,
+  );
+});
+
+// Run one readiness check; a probe that throws or outlives
+// HEALTH_CHECK_TIMEOUT_MS counts as an error. null means not configured.
+const runHealthCheck = async (
+  probe: (() => Promise<boolean>) | null,
+): Promise<{
+  status: "ok" | "error" | "disabled";
+  latencyMs: number | null;
+}> => {
+  if (!probe) return { status: "disabled", latencyMs: null };
+  const startTime = performance.now();
+  const timeoutController = new AbortController();
+  let healthy: boolean;
+  try {
+    healthy = await Promise.race([
+      probe(),
+      sleep(env.HEALTH_CHECK_TIMEOUT_MS, timeoutController.signal).then(
+        () => false,
+      ),
+    ]);
+  } catch {
+    healthy = false;
+  } finally {
+    timeoutController.abort();
+  }
+  return {
+    status: healthy ? "ok" : "error",
+    latencyMs: Math.round(performance.now() - startTime),
+  };
+};
+
+app.openapi(readinessRoute, async (c) => {
+  const redis = redisConnection;
+  const queue = downloadQueue ?? localDownloadQueue;
+  const worker = downloadWorker ?? localDownloadQueue;
+  const [storage, redisCheck, queueCheck, workerCheck] = await Promise.all([
+    runHealthCheck(checkS3Health),
+    // ioredis queues commands while disconnected, so check the state first
+    runHealthCheck(
+      redis &&
+        (async () => {
+          if (redis.status !== "ready") return false;
+          await redis.ping();
+          return true;
+        }),
+    ),
+    runHealthCheck(
+      queue &&
+        (async () => {
+          await queue.getJobCounts("waiting");
+          return true;
+        }),
+    ),
+    runHealthCheck(worker && (() => Promise.resolve(worker.isRunning()))),
+  ]);
+
+  const shuttingDown = shutdownController.signal.aborted;
+  const healthy =
+    !shuttingDown &&
+    [storage, redisCheck, queueCheck, workerCheck].every(
+      (check) => check.status !== "error",
+    );
+  return c.json(
+    {
+      status: healthy ? ("healthy" as const) : ("unhealthy" as const),
+      checks: {
+        storage: storage.status === "ok" ? ("ok" as const) : ("error" as const),
+        redis: redisCheck.status,
+        queue: queueCheck.status,
+        worker: workerCheck.status,
+      },
+      latencyMs: {
+        storage: storage.latencyMs ?? 0,
+        redis: redisCheck.latencyMs,
+        queue: queueCheck.latencyMs,
+        worker: workerCheck.latencyMs,
+      },
+      shuttingDown,
+      role: env.SERVICE_ROLE,
+    },
+    healthy ? 200 : 503,
+  );
+});
+
 // Download API Routes
 const downloadInitiateRoute = createRoute({
   method: "post",
   path: "/v1/download/initiate",
   tags: ["Download"],
   summary: "Initiate download job",
-  description: "Initiates a download job for multiple IDs",
+  description: `Initiates a download job for multiple IDs.
+    Send an Idempotency-Key header to make retries safe: a repeat with the same key and body
+    returns the original response (with Idempotent-Replayed: true) instead of creating another job.`,
   request: {
+    headers: z.object({
+      "idempotency-key": z.string().min(1).max(255).optional().openapi({
+        description: "Client-generated key that deduplicates retried requests",
+      }),
+    }),
     body: {
       content: {
         "application/json": {
@@ -665,7 +3186,1742 @@ const downloadInitiateRoute = createRoute({
       description: "Download job initiated",
       content: {
         "application/json": {
-          schema: DownloadInitiateResponseSchema,
+          schema: DownloadInitiateResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid request",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: "Missing or invalid credentials",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    422: {
+      description: "Idempotency-Key was already used with a different body",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    429: {
+      description: "Client is over its active-job or daily byte quota",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Internal server error",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+const downloadCheckRoute = createRoute({
+  method: "post",
+  path: "/v1/download/check",
+  tags: ["Download"],
+  summary: "Check download availability",
+  description:
+    "Checks if a single ID is available for download in S3. Add ?sentry_test=true to trigger an error for Sentry testing.",
+  request: {
+    query: z.object({
+      sentry_test: z.string().optional().openapi({
+        description:
+          "Set to 'true' to trigger an intentional error for Sentry testing",
+      }),
+    }),
+    body: {
+      content: {
+        "application/json": {
+          schema: DownloadCheckRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Availability check result",
+      content: {
+        "application/json": {
+          schema: DownloadCheckResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid request",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: "Missing or invalid credentials",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Internal server error",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+// Idempotency keys: a retried initiate carrying the same Idempotency-Key gets
+// the original response instead of a new job. The stored body fingerprint
+// catches a key being reused for a different request.
+interface IdempotencyRecord {
+  fingerprint: string;
+  response: z.infer<typeof DownloadInitiateResponseSchema>;
+}
+
+// In-memory idempotency store (fallback when Redis is not available)
+const inMemoryIdempotencyKeys = new Map<
+  string,
+  { record: IdempotencyRecord; expiresAt: number }
+>();
+
+const fingerprintRequest = (body: unknown): string =>
+  createHash("sha256").update(JSON.stringify(body)).digest("hex");
+
+// Atomically claim a key for a new request. Returns null when the claim
+// succeeded, otherwise the record stored by the request that claimed it first.
+const claimIdempotencyKey = async (
+  key: string,
+  record: IdempotencyRecord,
+): Promise<IdempotencyRecord | null> => {
+  const ttlSeconds = env.IDEMPOTENCY_KEY_TTL_SECONDS;
+  if (redisConnection) {
+    const redisKey = `idempotency:${key}`;
+    const claimed = await redisConnection.set(
+      redisKey,
+      JSON.stringify(record),
+      "EX",
+      ttlSeconds,
+      "NX",
+    );
+    if (claimed === "OK") return null;
+    const existing = await redisConnection.get(redisKey);
+    // The original expired in between; claim it afresh
+    if (!existing) return claimIdempotencyKey(key, record);
+    return JSON.parse(existing) as IdempotencyRecord;
+  }
+
+  // Entries share one TTL, so insertion order is expiry order
+  const now = Date.now();
+  for (const [storedKey, entry] of inMemoryIdempotencyKeys) {
+    if (entry.expiresAt > now) break;
+    inMemoryIdempotencyKeys.delete(storedKey);
+  }
+  const existing = inMemoryIdempotencyKeys.get(key);
+  if (existing) return existing.record;
+  inMemoryIdempotencyKeys.set(key, {
+    record,
+    expiresAt: now + ttlSeconds * 1000,
+  });
+  return null;
+};
+
+// Forget a key whose request failed, so the client's retry can go through
+const releaseIdempotencyKey = async (key: string): Promise<void> => {
+  if (redisConnection) {
+    await redisConnection.del(`idempotency:${key}`);
+    return;
+  }
+  inMemoryIdempotencyKeys.delete(key);
+};
+
+// Store the initial job status and hand the job to the queue or in-memory runner
+const enqueueDownloadJob = async (
+  jobId: string,
+  owner: string | null,
+  {
+    file_ids,
+    bundle,
+    callbackUrl,
+  }: z.infer<typeof DownloadInitiateRequestSchema>,
+): Promise<void> => {
+  // Create initial job status with one pending sub-task per file_id
+  const now = new Date().toISOString();
+  const status: JobResult = {
+    file_id: file_ids[0],
+    status: "queued",
+    progress: 0,
+    downloadUrl: null,
+    sha256: null,
+    size: null,
+    processingTimeMs: null,
+    message: "Job queued for processing",
+    bundle,
+    files: file_ids.map((fileId) => ({
+      file_id: fileId,
+      status: "pending" as const,
+      size: null,
+      downloadUrl: null,
+      sha256: null,
+      message: "Waiting to be processed",
+    })),
+    totalFiles: file_ids.length,
+    completedFiles: 0,
+    failedFiles: 0,
+    attempt: 0,
+    maxAttempts: env.DOWNLOAD_MAX_ATTEMPTS,
+    lastError: null,
+    callbackUrl: callbackUrl ?? null,
+    owner,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await setJobStatus(jobId, status);
+  await jobStore.addToIndex(jobId, status);
+
+  // Queue the job (if Redis is available) or process in background
+  if (downloadQueue) {
+    // The BullMQ job shares our jobId so a cancel can find and remove it
+    await downloadQueue.add(
+      "download",
+      { jobId, fileIds: file_ids, bundle },
+      {
+        jobId,
+        attempts: env.DOWNLOAD_MAX_ATTEMPTS,
+        backoff: { type: "storage" },
+      },
+    );
+    console.log(
+      `[Download] Queued job=${jobId} files=${String(file_ids.length)} to BullMQ`,
+    );
+  } else if (localDownloadQueue) {
+    // Fallback: the in-process queue (no Redis)
+    await localDownloadQueue.add(
+      "download",
+      { jobId, fileIds: file_ids, bundle },
+      {
+        jobId,
+        attempts: env.DOWNLOAD_MAX_ATTEMPTS,
+        backoff: { type: "storage" },
+      },
+    );
+    console.log(
+      `[Download] Queued job=${jobId} files=${String(file_ids.length)} to the local queue (no Redis)`,
+    );
+  }
+};
+
+app.openapi(downloadInitiateRoute, async (c) => {
+  const body = c.req.valid("json");
+  const clientId = c.get("clientId");
+  // Keys are scoped per client, so two clients can pick the same key
+  const headerKey = c.req.valid("header")["idempotency-key"];
+  const idempotencyKey =
+    headerKey === undefined ? undefined : `${clientId ?? ""}:${headerKey}`;
+
+  // Unsigned callbacks could not be verified by the receiver
+  if (body.callbackUrl && !env.WEBHOOK_SECRET) {
+    return c.json(
+      {
+        error: "Bad Request",
+        message: "callbackUrl requires WEBHOOK_SECRET to be configured",
+        requestId: c.get("requestId") as string | undefined,
+      },
+      400,
+    );
+  }
+  // Callbacks may not reach the internal network
+  if (body.callbackUrl) {
+    let callbackError: string | null = null;
+    try {
+      await checkCallbackUrl(body.callbackUrl);
+    } catch (err) {
+      callbackError = isForbiddenWebhookTargetError(err)
+        ? err.message
+        : `callbackUrl host could not be resolved: ${describeError(err)}`;
+    }
+    if (callbackError) {
+      return c.json(
+        {
+          error: "Bad Request",
+          message: callbackError,
+          requestId: c.get("requestId") as string | undefined,
+        },
+        400,
+      );
+    }
+  }
+
+  const jobId = crypto.randomUUID();
+  const response = {
+    jobId,
+    status: "queued" as const,
+    totalFileIds: body.file_ids.length,
+  };
+
+  if (idempotencyKey) {
+    const fingerprint = fingerprintRequest(body);
+    const original = await claimIdempotencyKey(idempotencyKey, {
+      fingerprint,
+      response,
+    });
+    if (original && original.fingerprint !== fingerprint) {
+      return c.json(
+        {
+          error: "Unprocessable Entity",
+          message:
+            "Idempotency-Key was already used with a different request body",
+          requestId: c.get("requestId") as string | undefined,
+        },
+        422,
+      );
+    }
+    if (original) {
+      c.header("Idempotent-Replayed", "true");
+      return c.json(original.response, 200);
+    }
+  }
+
+  // Quotas are checked after the idempotency claim so replays still succeed
+  const quota = getClientQuota(clientId);
+  const now = new Date();
+  let quotaMessage: string | null = null;
+  if (
+    quota.dailyBytes > 0 &&
+    (await getDailyBytes(clientId)) >= quota.dailyBytes
+  ) {
+    c.header(
+      "Retry-After",
+      String(Math.ceil((nextUsageReset(now).getTime() - now.getTime()) / 1000)),
+    );
+    quotaMessage = `Daily download budget of ${String(quota.dailyBytes)} bytes is used up; it resets at ${nextUsageReset(now).toISOString()}`;
+  } else if (!(await reserveActiveJob(clientId, jobId, quota.maxActiveJobs))) {
+    quotaMessage = `Too many active jobs: at most ${String(quota.maxActiveJobs)} may be queued or processing at once`;
+  }
+  if (quotaMessage) {
+    if (idempotencyKey) await releaseIdempotencyKey(idempotencyKey);
+    console.log(
+      `[Quota] Rejected initiate client=${clientId ?? "anonymous"}: ${quotaMessage}`,
+    );
+    return c.json(
+      {
+        error: "Too Many Requests",
+        message: quotaMessage,
+        requestId: c.get("requestId") as string | undefined,
+      },
+      429,
+    );
+  }
+
+  try {
+    await enqueueDownloadJob(jobId, clientId, body);
+  } catch (err) {
+    await releaseActiveJob(clientId, jobId);
+    if (idempotencyKey) await releaseIdempotencyKey(idempotencyKey);
+    throw err;
+  }
+
+  return c.json(response, 200);
+});
+
+app.openapi(downloadCheckRoute, async (c) => {
+  const { sentry_test } = c.req.valid("query");
+  const { file_id } = c.req.valid("json");
+
+  // Intentional error for Sentry testing (hackathon challenge)
+  if (sentry_test === "true") {
+    throw new Error(
+      `Sentry test error triggered for file_id=${String(file_id)} - This should appear in Sentry!`,
+    );
+  }
+
+  const s3Result = await checkS3Availability(file_id);
+  return c.json(
+    {
+      file_id,
+      ...s3Result,
+    },
+    200,
+  );
+});
+
+// Job Status Route - for polling job progress
+const MAX_LONG_POLL_SECONDS = 60;
+
+const jobStatusRoute = createRoute({
+  method: "get",
+  path: "/v1/download/status/:jobId",
+  tags: ["Download"],
+  summary: "Get download job status (polling)",
+  description: `Poll this endpoint to check the status of a download job.
+    Returns progress percentage, and when complete, provides a presigned S3 URL.
+    Recommended polling interval: 2-5 seconds.
+    Responses carry an ETag; send it back as If-None-Match to get 304 Not Modified while nothing changed.
+    Add ?wait=<seconds> to long-poll: the request is held until the job changes or the wait expires.`,
+  request: {
+    params: z.object({
+      jobId: z
+        .uuid()
+        .openapi({ description: "Job ID returned from /v1/download/initiate" }),
+    }),
+    query: z.object({
+      wait: z.coerce
+        .number()
+        .int()
+        .min(0)
+        .max(MAX_LONG_POLL_SECONDS)
+        .optional()
+        .openapi({
+          description: `Long-poll for up to this many seconds (max ${String(MAX_LONG_POLL_SECONDS)})`,
+        }),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Job status",
+      content: {
+        "application/json": {
+          schema: JobStatusResponseSchema,
+        },
+      },
+    },
+    304: {
+      description: "Job status unchanged since the ETag in If-None-Match",
+    },
+    401: {
+      description: "Missing or invalid credentials",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Job not found",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Internal server error",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+app.openapi(jobStatusRoute, async (c) => {
+  const { jobId } = c.req.valid("param");
+  const { wait } = c.req.valid("query");
+  const ifNoneMatch = c.req.header("if-none-match");
+
+  // Start listening before reading so a change in between is not missed.
+  // Long-polls stay below the request timeout so they end with a response.
+  const waitController = new AbortController();
+  const nextUpdate = wait
+    ? waitForJobUpdate(
+        jobId,
+        Math.min(wait * 1000, env.REQUEST_TIMEOUT_MS - 1000),
+        AbortSignal.any([
+          waitController.signal,
+          c.req.raw.signal,
+          shutdownController.signal,
+        ]),
+      )
+    : null;
+
+  let jobStatus = await getJobStatus(jobId);
+
+  if (!jobStatus || !ownsJob(jobStatus, c.get("clientId"))) {
+    waitController.abort();
+    return c.json(
+      {
+        error: "Not Found",
+        message: `Job ${jobId} not found`,
+        requestId: c.get("requestId") as string | undefined,
+      },
+      404,
+    );
+  }
+
+  let etag = computeJobEtag(jobStatus);
+  const clientUpToDate =
+    ifNoneMatch === undefined || etagMatches(ifNoneMatch, etag);
+  if (nextUpdate && clientUpToDate && !isTerminalStatus(jobStatus.status)) {
+    const update = await nextUpdate;
+    if (update) {
+      jobStatus = update;
+      etag = computeJobEtag(update);
+    }
+  }
+  waitController.abort();
+
+  c.header("ETag", etag);
+  c.header("Cache-Control", "no-cache");
+  if (ifNoneMatch !== undefined && etagMatches(ifNoneMatch, etag)) {
+    return c.body(null, 304);
+  }
+
+  return c.json(
+    {
+      jobId,
+      ...jobStatus,
+    },
+    200,
+  );
+});
+
+// Job List Route - browse jobs newest first
+const JOB_LIST_BATCH_SIZE = 100;
+const JOB_LIST_MAX_SCANNED = 1000; // Index entries examined per request
+
+// Cursors are opaque to clients: the last index entry a page examined
+const JobCursorSchema = z.object({ t: z.number().int(), id: z.uuid() });
+
+const encodeJobCursor = (entry: JobIndexEntry): string =>
+  Buffer.from(JSON.stringify({ t: entry.createdAt, id: entry.jobId })).toString(
+    "base64url",
+  );
+
+const decodeJobCursor = (cursor: string): JobIndexEntry | null => {
+  try {
+    const parsed = JobCursorSchema.safeParse(
+      JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")),
+    );
+    return parsed.success
+      ? { jobId: parsed.data.id, createdAt: parsed.data.t }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const jobListRoute = createRoute({
+  method: "get",
+  path: "/v1/download/jobs",
+  tags: ["Download"],
+  summary: "List download jobs",
+  description: `Lists jobs newest first, optionally filtered by status, file ID and creation time.
+    Pages may hold fewer than \`limit\` jobs when filters are selective; keep following nextCursor until it is null.`,
+  request: {
+    query: JobListQuerySchema,
+  },
+  responses: {
+    200: {
+      description: "Page of jobs",
+      content: {
+        "application/json": {
+          schema: JobListResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid query",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: "Missing or invalid credentials",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+app.openapi(jobListRoute, async (c) => {
+  const { status, file_id, createdAfter, createdBefore, limit, cursor } =
+    c.req.valid("query");
+
+  let after: JobIndexEntry | null = null;
+  if (cursor) {
+    after = decodeJobCursor(cursor);
+    if (!after) {
+      return c.json(
+        {
+          error: "Bad Request",
+          message: "Invalid cursor",
+          requestId: c.get("requestId") as string | undefined,
+        },
+        400,
+      );
+    }
+  }
+
+  const fromMs = createdAfter ? new Date(createdAfter).getTime() : 0;
+  const toMs = createdBefore
+    ? new Date(createdBefore).getTime()
+    : Number.MAX_SAFE_INTEGER;
+
+  const jobs: z.infer<typeof JobStatusResponseSchema>[] = [];
+  let scanned = 0;
+  let exhausted = false;
+  while (jobs.length < limit && scanned < JOB_LIST_MAX_SCANNED) {
+    const entries = await jobStore.list(
+      c.get("clientId"),
+      after,
+      fromMs,
+      toMs,
+      JOB_LIST_BATCH_SIZE,
+    );
+    if (entries.length === 0) {
+      exhausted = true;
+      break;
+    }
+    const statuses = await jobStore.getMany(entries.map((e) => e.jobId));
+    for (const [index, entry] of entries.entries()) {
+      const jobStatus = statuses[index];
+      after = entry;
+      scanned++;
+      if (
+        jobStatus &&
+        ownsJob(jobStatus, c.get("clientId")) &&
+        (!status || jobStatus.status === status) &&
+        (file_id === undefined ||
+          jobStatus.files.some((f) => f.file_id === file_id))
+      ) {
+        jobs.push({ jobId: entry.jobId, ...jobStatus });
+        if (jobs.length === limit) break;
+      }
+    }
+  }
+
+  return c.json(
+    {
+      jobs,
+      nextCursor: exhausted || !after ? null : encodeJobCursor(after),
+    },
+    200,
+  );
+});
+
+// Cancel Job Route
+const cancelJobRoute = createRoute({
+  method: "delete",
+  path: "/v1/download/jobs/:jobId",
+  tags: ["Download"],
+  summary: "Cancel a download job",
+  description: `Cancels a queued or processing job. Queued jobs are removed from the queue;
+    running jobs stop at their next checkpoint and keep the files finished so far.
+    Cancelling an already cancelled job is a no-op.`,
+  request: {
+    params: z.object({
+      jobId: z
+        .uuid()
+        .openapi({ description: "Job ID returned from /v1/download/initiate" }),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Job cancelled",
+      content: {
+        "application/json": {
+          schema: JobStatusResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: "Missing or invalid credentials",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Job not found",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    409: {
+      description: "Job already finished",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Internal server error",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+app.openapi(cancelJobRoute, async (c) => {
+  const { jobId } = c.req.valid("param");
+  const jobStatus = await getJobStatus(jobId);
+
+  if (!jobStatus || !ownsJob(jobStatus, c.get("clientId"))) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: `Job ${jobId} not found`,
+        requestId: c.get("requestId") as string | undefined,
+      },
+      404,
+    );
+  }
+
+  if (jobStatus.status === "cancelled") {
+    return c.json({ jobId, ...jobStatus }, 200);
+  }
+
+  if (isTerminalStatus(jobStatus.status)) {
+    return c.json(
+      {
+        error: "Conflict",
+        message: `Job ${jobId} already finished with status ${jobStatus.status}`,
+        requestId: c.get("requestId") as string | undefined,
+      },
+      409,
+    );
+  }
+
+  // Drop the job from the queue if no worker has picked it up yet; an
+  // active job is locked by its worker and stops on the status update below
+  const queue = downloadQueue ?? localDownloadQueue;
+  if (queue) {
+    const queuedJob = await queue.getJob(jobId);
+    if (queuedJob && !(await queuedJob.isActive())) {
+      await queuedJob.remove().catch((err: unknown) => {
+        console.warn(`[Cancel] Could not remove queued job=${jobId}:`, err);
+      });
+    }
+  }
+
+  const cancelled: JobResult = structuredClone(jobStatus);
+  markJobCancelled(
+    cancelled,
+    jobStatus.status === "queued"
+      ? null
+      : Date.now() - new Date(jobStatus.createdAt).getTime(),
+  );
+  cancelled.updatedAt = new Date().toISOString();
+  // The worker may have finished the job since it was read
+  if (!(await updateJobStatus(jobId, cancelled))) {
+    const finished = await getJobStatus(jobId);
+    if (finished?.status === "cancelled") {
+      return c.json({ jobId, ...finished }, 200);
+    }
+    return c.json(
+      {
+        error: "Conflict",
+        message: `Job ${jobId} already finished with status ${finished?.status ?? "unknown"}`,
+        requestId: c.get("requestId") as string | undefined,
+      },
+      409,
+    );
+  }
+  // The files it stored no longer count against the daily budget; a running
+  // worker gives back what it counted since
+  await refundDailyBytes(cancelled.owner, countedBytes(cancelled.files));
+  await notifyJobFinished(jobId, cancelled);
+
+  console.log(`[Cancel] Cancelled job=${jobId} (was ${jobStatus.status})`);
+
+  return c.json({ jobId, ...cancelled }, 200);
+});
+
+// Webhook Deliveries Route - attempt log for the job's callbackUrl
+const webhookDeliveriesRoute = createRoute({
+  method: "get",
+  path: "/v1/download/jobs/:jobId/webhook",
+  tags: ["Download"],
+  summary: "List webhook delivery attempts",
+  description:
+    "Returns every attempt to deliver the job's final status to its callbackUrl, oldest first.",
+  request: {
+    params: z.object({
+      jobId: z
+        .uuid()
+        .openapi({ description: "Job ID returned from /v1/download/initiate" }),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Delivery attempts",
+      content: {
+        "application/json": {
+          schema: WebhookDeliveriesResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: "Missing or invalid credentials",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Job not found",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+app.openapi(webhookDeliveriesRoute, async (c) => {
+  const { jobId } = c.req.valid("param");
+  const jobStatus = await getJobStatus(jobId);
+
+  if (!jobStatus || !ownsJob(jobStatus, c.get("clientId"))) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: `Job ${jobId} not found`,
+        requestId: c.get("requestId") as string | undefined,
+      },
+      404,
+    );
+  }
+
+  return c.json(
+    {
+      jobId,
+      callbackUrl: jobStatus.callbackUrl,
+      deliveries: await getWebhookDeliveries(jobId),
+    },
+    200,
+  );
+});
+
+// Usage Route - the calling client's consumption against its quotas
+const usageRoute = createRoute({
+  method: "get",
+  path: "/v1/usage",
+  tags: ["Usage"],
+  summary: "Get quota usage",
+  description:
+    "Reports the calling client's active jobs and bytes downloaded today (UTC) against its quotas.",
+  responses: {
+    200: {
+      description: "Current usage",
+      content: {
+        "application/json": {
+          schema: UsageResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: "Missing or invalid credentials",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+app.openapi(usageRoute, async (c) => {
+  const clientId = c.get("clientId");
+  const quota = getClientQuota(clientId);
+  const [activeJobs, dailyBytes] = await Promise.all([
+    countActiveJobs(clientId),
+    getDailyBytes(clientId),
+  ]);
+  return c.json(
+    {
+      clientId,
+      activeJobs: {
+        used: activeJobs,
+        limit: quota.maxActiveJobs > 0 ? quota.maxActiveJobs : null,
+      },
+      dailyBytes: {
+        used: dailyBytes,
+        limit: quota.dailyBytes > 0 ? quota.dailyBytes : null,
+        resetsAt: nextUsageReset(new Date()).toISOString(),
+      },
+    },
+    200,
+  );
+});
+
+// Job Events Route - Server-Sent Events alternative to polling
+const jobEventsRoute = createRoute({
+  method: "get",
+  path: "/v1/download/status/:jobId/events",
+  tags: ["Download"],
+  summary: "Stream download job status (SSE)",
+  description: `Streams job status updates as Server-Sent Events.
+    Sends the current status immediately, a \`status\` event on every change (including progress ticks)
+    and heartbeat comments every ${String(env.SSE_HEARTBEAT_MS / 1000)}s. The stream closes once the job reaches a terminal status.`,
+  request: {
+    params: z.object({
+      jobId: z
+        .uuid()
+        .openapi({ description: "Job ID returned from /v1/download/initiate" }),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Stream of job status events",
+      content: {
+        "text/event-stream": {
+          schema: z.string().openapi({
+            description: "`status` events carrying a JobStatusResponse",
+          }),
+        },
+      },
+    },
+    401: {
+      description: "Missing or invalid credentials",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Job not found",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+app.openapi(jobEventsRoute, async (c) => {
+  const { jobId } = c.req.valid("param");
+
+  // Subscribe before reading so no update between the two is lost
+  const pending: JobResult[] = [];
+  let notify: (() => void) | null = null;
+  const unsubscribe = subscribeToJob(jobId, (status) => {
+    pending.push(status);
+    notify?.();
+  });
+
+  const jobStatus = await getJobStatus(jobId);
+  if (!jobStatus || !ownsJob(jobStatus, c.get("clientId"))) {
+    unsubscribe();
+    return c.json(
+      {
+        error: "Not Found",
+        message: `Job ${jobId} not found`,
+        requestId: c.get("requestId") as string | undefined,
+      },
+      404,
+    );
+  }
+  pending.unshift(jobStatus);
+
+  return streamSSE(c, async (stream) => {
+    const wake = () => notify?.();
+    stream.onAbort(wake);
+    shutdownController.signal.addEventListener("abort", wake);
+
+    const heartbeat = setInterval(() => {
+      void stream.write(": heartbeat\n\n");
+    }, env.SSE_HEARTBEAT_MS);
+
+    try {
+      while (!stream.aborted && !shutdownController.signal.aborted) {
+        const status = pending.shift();
+        if (!status) {
+          await new Promise<void>((resolve) => {
+            notify = resolve;
+          });
+          notify = null;
+          continue;
+        }
+        await stream.writeSSE({
+          event: "status",
+          id: status.updatedAt,
+          data: JSON.stringify({ jobId, ...status }),
+        });
+        if (isTerminalStatus(status.status)) break;
+      }
+    } finally {
+      clearInterval(heartbeat);
+      shutdownController.signal.removeEventListener("abort", wake);
+      unsubscribe();
+    }
+  });
+});
+
+// WebSocket Route - subscribe to many jobs over a single connection
+const nodeWebSocket = createNodeWebSocket({ app });
+
+// Keep pending sends bounded: pause flushing while the socket buffer is full
+const WS_MAX_BUFFERED_BYTES = 1024 * 1024;
+const WS_MAX_SUBSCRIPTIONS = 100;
+
+const JobSocketRequestSchema = z.object({
+  type: z.enum(["subscribe", "unsubscribe"]),
+  jobIds: z.array(z.uuid()).min(1).max(WS_MAX_SUBSCRIPTIONS),
+});
+
+type JobSocketMessage =
+  | { type: "status"; job: { jobId: string } & JobResult }
+  | { type: "subscribed" | "unsubscribed"; jobIds: string[] }
+  | { type: "error"; message: string; jobId?: string };
+
+// Auth hook for WebSocket subscribers while /v1 authentication is disabled
+// (otherwise the upgrade was authenticated like any /v1 request). Browsers
+// cannot set headers on the upgrade request, so the token may also be passed
+// as ?token=
+const authorizeJobSubscriber = (c: Context): boolean => {
+  if (authEnabled || !env.WS_AUTH_TOKEN) return true;
+  const token =
+    c.req.header("authorization")?.replace(/^Bearer\s+/i, "") ??
+    c.req.query("token");
+  return token !== undefined && safeEqual(token, env.WS_AUTH_TOKEN);
+};
+
+const createJobSocketSession = (
+  ws: WSContext<{ bufferedAmount: number }>,
+  clientId: string | null,
+) => {
+  const subscriptions = new Map<string, () => void>();
+  const lastUpdatedAt = new Map<string, string>();
+  // Status updates are coalesced per job, so a slow client only ever has the
+  // latest state of each job queued instead of every progress tick
+  const outbox = new Map<string, JobSocketMessage>();
+  let flushTimer: NodeJS.Timeout | null = null;
+  let closed = false;
+
+  const flush = () => {
+    flushTimer = null;
+    for (const [key, message] of outbox) {
+      if (closed) return;
+      if (ws.raw && ws.raw.bufferedAmount > WS_MAX_BUFFERED_BYTES) {
+        flushTimer = setTimeout(flush, 50);
+        return;
+      }
+      outbox.delete(key);
+      ws.send(JSON.stringify(message));
+    }
+  };
+
+  const enqueue = (key: string, message: JobSocketMessage) => {
+    if (closed) return;
+    outbox.set(key, message);
+    if (outbox.size > WS_MAX_SUBSCRIPTIONS * 2) {
+      ws.close(1008, "Send queue overflow");
+      return;
+    }
+    flushTimer ??= setTimeout(flush, 0);
+  };
+
+  const unsubscribe = (jobId: string) => {
+    subscriptions.get(jobId)?.();
+    subscriptions.delete(jobId);
+    lastUpdatedAt.delete(jobId);
+  };
+
+  const pushStatus = (jobId: string, status: JobResult) => {
+    // Ignore a snapshot older than an update already delivered
+    const previous = lastUpdatedAt.get(jobId);
+    if (previous && previous > status.updatedAt) return;
+    lastUpdatedAt.set(jobId, status.updatedAt);
+    enqueue(`status:${jobId}`, { type: "status", job: { jobId, ...status } });
+    if (isTerminalStatus(status.status)) unsubscribe(jobId);
+  };
+
+  const subscribe = async (jobId: string) => {
+    if (subscriptions.has(jobId)) return;
+    if (subscriptions.size >= WS_MAX_SUBSCRIPTIONS) {
+      enqueue(`error:${jobId}`, {
+        type: "error",
+        jobId,
+        message: `Subscription limit of ${String(WS_MAX_SUBSCRIPTIONS)} jobs reached`,
+      });
+      return;
+    }
+    subscriptions.set(
+      jobId,
+      subscribeToJob(jobId, (status) => {
+        if (ownsJob(status, clientId)) pushStatus(jobId, status);
+      }),
+    );
+    const current = await getJobStatus(jobId);
+    if (!subscriptions.has(jobId)) return;
+    if (current && ownsJob(current, clientId)) {
+      pushStatus(jobId, current);
+    } else {
+      unsubscribe(jobId);
+      enqueue(`error:${jobId}`, {
+        type: "error",
+        jobId,
+        message: `Job ${jobId} not found`,
+      });
+    }
+  };
+
+  const handleMessage = async (data: unknown) => {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(String(data));
+    } catch {
+      payload = null;
+    }
+    const request = JobSocketRequestSchema.safeParse(payload);
+    if (!request.success) {
+      enqueue(`error:${crypto.randomUUID()}`, {
+        type: "error",
+        message: "Expected {type: 'subscribe' | 'unsubscribe', jobIds: uuid[]}",
+      });
+      return;
+    }
+    const { type, jobIds } = request.data;
+    if (type === "subscribe") {
+      enqueue(`ack:${crypto.randomUUID()}`, { type: "subscribed", jobIds });
+      await Promise.all(jobIds.map(subscribe));
+    } else {
+      jobIds.forEach(unsubscribe);
+      enqueue(`ack:${crypto.randomUUID()}`, { type: "unsubscribed", jobIds });
+    }
+  };
+
+  const onShutdown = () => {
+    ws.close(1001, "Server shutting down");
+  };
+  shutdownController.signal.addEventListener("abort", onShutdown);
+
+  const close = () => {
+    closed = true;
+    if (flushTimer) clearTimeout(flushTimer);
+    shutdownController.signal.removeEventListener("abort", onShutdown);
+    for (const jobId of [...subscriptions.keys()]) unsubscribe(jobId);
+    outbox.clear();
+  };
+
+  return { handleMessage, close };
+};
+
+app.get(
+  "/v1/download/ws",
+  async (c, next) => {
+    if (!authorizeJobSubscriber(c)) {
+      return c.json(
+        {
+          error: "Unauthorized",
+          message: "Missing or invalid subscription token",
+          requestId: c.get("requestId") as string | undefined,
+        },
+        401,
+      );
+    }
+    await next();
+  },
+  nodeWebSocket.upgradeWebSocket((c) => {
+    const clientId = c.get("clientId") as string | null;
+    let session: ReturnType<typeof createJobSocketSession> | null = null;
+    return {
+      onOpen: (_evt, ws) => {
+        session = createJobSocketSession(ws, clientId);
+      },
+      onMessage: (evt, ws) => {
+        session?.handleMessage(evt.data).catch((err: unknown) => {
+          console.error("[WebSocket] Failed to handle message:", err);
+          ws.close(1011, "Internal error");
+        });
+      },
+      onClose: () => {
+        session?.close();
+        session = null;
+      },
+    };
+  }),
+);
+
+// Download Start Route - simulates long-running download with random delay
+const downloadStartRoute = createRoute({
+  method: "post",
+  path: "/v1/download/start",
+  tags: ["Download"],
+  summary: "Start file download (long-running)",
+  description: `Starts a file download with simulated processing delay.
+    Processing time varies randomly between ${String(env.DOWNLOAD_DELAY_MIN_MS / 1000)}s and ${String(env.DOWNLOAD_DELAY_MAX_MS / 1000)}s,
+    and the request gives up with 504 after ${String(env.DOWNLOAD_START_TIMEOUT_MS / 1000)}s.
+    This endpoint demonstrates long-running operations that may timeout behind proxies.
+    Send \`Accept: application/x-ndjson\` to stream \`progress\` lines every ${String(env.SSE_HEARTBEAT_MS / 1000)}s
+    (keeping proxies from closing the idle connection) followed by one \`result\` or \`error\` line.`,
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: DownloadStartRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Download completed successfully",
+      content: {
+        "application/json": {
+          schema: DownloadStartResponseSchema,
+        },
+        "application/x-ndjson": {
+          schema: z.string().openapi({
+            description:
+              "One JSON object per line: `progress` lines, then a `result` line carrying a DownloadStartResponse or an `error` line carrying an ErrorResponse",
+          }),
+        },
+      },
+    },
+    400: {
+      description: "Invalid request",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: "Missing or invalid credentials",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Internal server error",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    504: {
+      description: "Download did not finish within DOWNLOAD_START_TIMEOUT_MS",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+type DownloadStartResponse = z.infer<typeof DownloadStartResponseSchema>;
+
+// The work behind /v1/download/start; null when the signal aborts first
+const runDownloadStart = async (
+  fileId: number,
+  delayMs: number,
+  startTime: number,
+  signal: AbortSignal,
+): Promise<DownloadStartResponse | null> => {
+  // Simulate long-running download process
+  await sleep(delayMs, signal);
+  if (signal.aborted) return null;
+
+  // Check if file is available in storage
+  const s3Result = await checkS3Availability(fileId);
+  const downloadUrl = s3Result.s3Key
+    ? await generatePresignedUrl(s3Result.s3Key)
+    : null;
+  const processingTimeMs = Date.now() - startTime;
+  const elapsed = (processingTimeMs / 1000).toFixed(1);
+
+  console.log(
+    `[Download] Completed file_id=${String(fileId)}, actual_time=${String(processingTimeMs)}ms, available=${String(s3Result.available)}`,
+  );
+
+  if (downloadUrl) {
+    return {
+      file_id: fileId,
+      status: "completed",
+      downloadUrl,
+      size: s3Result.size,
+      processingTimeMs,
+      message: `Download ready after ${elapsed} seconds`,
+    };
+  }
+  return {
+    file_id: fileId,
+    status: "failed",
+    downloadUrl: null,
+    size: null,
+    processingTimeMs,
+    message: s3Result.available
+      ? `Failed to generate download URL after ${elapsed} seconds of processing`
+      : `File not found after ${elapsed} seconds of processing`,
+  };
+};
+
+// Shared by the JSON and NDJSON variants of /v1/download/start
+const beginDownloadStart = (c: Context, fileId: number) => {
+  const startTime = Date.now();
+
+  // Get random delay and log it
+  const delayMs = getRandomDelay();
+  const delaySec = (delayMs / 1000).toFixed(1);
+  const minDelaySec = (env.DOWNLOAD_DELAY_MIN_MS / 1000).toFixed(0);
+  const maxDelaySec = (env.DOWNLOAD_DELAY_MAX_MS / 1000).toFixed(0);
+  console.log(
+    `[Download] Starting file_id=${String(fileId)} | delay=${delaySec}s (range: ${minDelaySec}s-${maxDelaySec}s) | enabled=${String(env.DOWNLOAD_DELAY_ENABLED)}`,
+  );
+
+  // Stop waiting once the deadline passes or the client goes away
+  const deadline = AbortSignal.any([
+    AbortSignal.timeout(env.DOWNLOAD_START_TIMEOUT_MS),
+    c.req.raw.signal,
+  ]);
+  const timedOut = {
+    error: "Gateway Timeout",
+    message: `Download did not finish within ${String(env.DOWNLOAD_START_TIMEOUT_MS / 1000)}s; use /v1/download/initiate for long downloads`,
+    requestId: c.get("requestId") as string | undefined,
+  };
+  return { startTime, delayMs, deadline, timedOut };
+};
+
+// Streaming mode: progress lines keep proxies from timing out the otherwise
+// silent connection. This is a plain route since app.openapi types every
+// application/*json response as a JSON body; downloadStartRoute documents
+// it and answers everything else, invalid bodies included.
+app.post("/v1/download/start", async (c, next) => {
+  const parsed = c.req.header("accept")?.includes("application/x-ndjson")
+    ? DownloadStartRequestSchema.safeParse(
+        await c.req.json<unknown>().catch(() => null),
+      )
+    : null;
+  if (!parsed?.success) {
+    await next();
+    return;
+  }
+
+  const { file_id } = parsed.data;
+  const { startTime, delayMs, deadline, timedOut } = beginDownloadStart(
+    c,
+    file_id,
+  );
+  c.header("Content-Type", "application/x-ndjson");
+  c.header("Cache-Control", "no-cache");
+  c.header("X-Accel-Buffering", "no"); // nginx would hold lines back
+  return stream(
+    c,
+    async (stream) => {
+      const writeLine = (line: object) =>
+        stream.write(`${JSON.stringify(line)}\n`);
+      const writeProgress = () => {
+        const elapsedMs = Date.now() - startTime;
+        return writeLine({
+          type: "progress",
+          file_id,
+          progress: Math.min(
+            Math.floor((elapsedMs / Math.max(delayMs, 1)) * 100),
+            99,
+          ),
+          elapsedMs,
+        });
+      };
+
+      await writeProgress();
+      const heartbeat = setInterval(() => {
+        void writeProgress();
+      }, env.SSE_HEARTBEAT_MS);
+      try {
+        const result = await runDownloadStart(
+          file_id,
+          delayMs,
+          startTime,
+          deadline,
+        );
+        await writeLine(
+          result
+            ? { type: "result", ...result }
+            : { type: "error", ...timedOut },
+        );
+      } finally {
+        clearInterval(heartbeat);
+      }
+    },
+    async (err, stream) => {
+      console.error(
+        `[Download] Stream failed file_id=${String(file_id)}:`,
+        err,
+      );
+      await stream.write(
+        `${JSON.stringify({
+          type: "error",
+          error: "Internal Server Error",
+          message:
+            env.NODE_ENV === "development"
+              ? err.message
+              : "An unexpected error occurred",
+          requestId: c.get("requestId") as string | undefined,
+        })}\n`,
+      );
+    },
+  );
+});
+
+app.openapi(downloadStartRoute, async (c) => {
+  const { file_id } = c.req.valid("json");
+  const { startTime, delayMs, deadline, timedOut } = beginDownloadStart(
+    c,
+    file_id,
+  );
+  const result = await runDownloadStart(file_id, delayMs, startTime, deadline);
+  if (!result) return c.json(timedOut, 504);
+  return c.json(result, 200);
+});
+
+// File Content Route - stream a file through the service, for clients that
+// cannot reach the storage host behind download URLs
+const fileContentRoute = createRoute({
+  method: "get",
+  path: "/v1/files/:fileId/content",
+  tags: ["Files"],
+  summary: "Download file content",
+  description: `Streams a file that a job completed through this service instead of from storage.
+    Requires the job that produced the file; only its owner can read it.
+    Supports single \`Range\` requests (206) guarded by \`If-Range\`, so interrupted downloads can resume.`,
+  request: {
+    params: z.object({
+      fileId: FileIdParamSchema.openapi({
+        description: "File ID (10K to 100M)",
+      }),
+    }),
+    query: z.object({
+      jobId: z.uuid().openapi({ description: "Job that completed this file" }),
+    }),
+  },
+  responses: {
+    200: {
+      description: "The whole file",
+      content: {
+        "application/octet-stream": {
+          schema: z.string().openapi({ format: "binary" }),
+        },
+      },
+    },
+    206: {
+      description: "The requested byte range",
+      content: {
+        "application/octet-stream": {
+          schema: z.string().openapi({ format: "binary" }),
+        },
+      },
+    },
+    400: {
+      description: "Invalid request",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: "Missing or invalid credentials",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Job or file not found",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    416: {
+      description: "Range lies outside the file",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Internal server error",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+// A single "bytes=first-last", "bytes=first-" or "bytes=-suffix" range.
+// null for headers to ignore (malformed or multiple ranges), per RFC 9110.
+const parseByteRange = (
+  header: string,
+  size: number,
+): ByteRange | "unsatisfiable" | null => {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return null;
+  const [, first = "", last = ""] = match;
+  let range: ByteRange;
+  if (first === "") {
+    if (last === "") return null;
+    if (Number(last) === 0) return "unsatisfiable";
+    range = { start: Math.max(size - Number(last), 0), end: size - 1 };
+  } else {
+    if (last !== "" && Number(last) < Number(first)) return null;
+    range = {
+      start: Number(first),
+      end: last === "" ? size - 1 : Math.min(Number(last), size - 1),
+    };
+  }
+  return range.start < size ? range : "unsatisfiable";
+};
+
+// If-Range carries the ETag or Last-Modified date the client already has;
+// the range is only served while it still matches (strong comparison)
+const ifRangeMatches = (ifRange: string, info: StorageObjectInfo): boolean =>
+  ifRange.startsWith('"')
+    ? ifRange === info.etag
+    : !ifRange.startsWith("W/") && info.lastModified?.toUTCString() === ifRange;
+
+app.openapi(fileContentRoute, async (c) => {
+  const { fileId } = c.req.valid("param");
+  const { jobId } = c.req.valid("query");
+
+  const jobStatus = await getJobStatus(jobId);
+  const completed =
+    jobStatus &&
+    ownsJob(jobStatus, c.get("clientId")) &&
+    jobStatus.files.some(
+      (file) => file.file_id === fileId && file.status === "completed",
+    );
+  if (!completed) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: `File ${String(fileId)} not found in job ${jobId}`,
+        requestId: c.get("requestId") as string | undefined,
+      },
+      404,
+    );
+  }
+
+  const s3Key = sanitizeS3Key(fileId);
+  const info = await storage.headObject(s3Key);
+  if (!info) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: `File ${String(fileId)} is no longer in storage`,
+        requestId: c.get("requestId") as string | undefined,
+      },
+      404,
+    );
+  }
+
+  c.header("Accept-Ranges", info.size === null ? "none" : "bytes");
+  c.header("Cache-Control", "private, no-cache");
+  if (info.etag) c.header("ETag", info.etag);
+  if (info.lastModified) {
+    c.header("Last-Modified", info.lastModified.toUTCString());
+  }
+
+  const rangeHeader = c.req.header("range");
+  const ifRange = c.req.header("if-range");
+  const range =
+    rangeHeader !== undefined &&
+    info.size !== null &&
+    (ifRange === undefined || ifRangeMatches(ifRange, info))
+      ? parseByteRange(rangeHeader, info.size)
+      : null;
+
+  if (range === "unsatisfiable") {
+    c.header("Content-Range", `bytes */${String(info.size)}`);
+    return c.json(
+      {
+        error: "Range Not Satisfiable",
+        message: `Range ${rangeHeader ?? ""} lies outside the file's ${String(info.size)} bytes`,
+        requestId: c.get("requestId") as string | undefined,
+      },
+      416,
+    );
+  }
+
+  const body = Readable.toWeb(
+    await storage.getObject(s3Key, range ? { range } : {}),
+  ) as ReadableStream<Uint8Array>;
+  const headers = {
+    "Content-Type": info.contentType ?? "application/zip",
+    "Content-Disposition": `attachment; filename="file-${String(fileId)}.zip"`,
+  };
+  if (range) {
+    return c.body(body, 206, {
+      ...headers,
+      "Content-Range": `bytes ${String(range.start)}-${String(range.end)}/${String(info.size)}`,
+      "Content-Length": String(range.end - range.start + 1),
+    });
+  }
+  return c.body(body, 200, {
+    ...headers,
+    ...(info.size !== null && { "Content-Length": String(info.size) }),
+  });
+});
+
+// File Metadata Route - what storage knows about a file, before anyone
+// commits to a download job
+const fileMetadataRoute = createRoute({
+  method: "get",
+  path: "/v1/files/:fileId",
+  tags: ["Files"],
+  summary: "Get file metadata",
+  description: `Returns the file's HeadObject details: size, content type, ETag, last-modified time, storage class, user metadata and checksums.
+    Results are cached for ${String(env.FILE_METADATA_CACHE_SECONDS)}s.`,
+  request: {
+    params: z.object({
+      fileId: FileIdParamSchema.openapi({
+        description: "File ID (10K to 100M)",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      description: "File metadata",
+      content: {
+        "application/json": {
+          schema: FileMetadataResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid request",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: "Missing or invalid credentials",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "File not found",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Internal server error",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+app.openapi(fileMetadataRoute, async (c) => {
+  const { fileId } = c.req.valid("param");
+  const s3Key = sanitizeS3Key(fileId);
+  const info = await getFileMetadata(s3Key);
+
+  // Behind authentication, so shared caches must not keep it
+  c.header(
+    "Cache-Control",
+    `private, max-age=${String(env.FILE_METADATA_CACHE_SECONDS)}`,
+  );
+  if (!info) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: `File ${String(fileId)} not found`,
+        requestId: c.get("requestId") as string | undefined,
+      },
+      404,
+    );
+  }
+  return c.json(
+    {
+      file_id: fileId,
+      s3Key,
+      size: info.size,
+      contentType: info.contentType,
+      etag: info.etag,
+      lastModified: info.lastModified?.toISOString() ?? null,
+      storageClass: info.storageClass,
+      metadata: info.metadata,
+      checksums: info.checksums,
+    },
+    200,
+  );
+});
+
+// File Upload Routes - publish files without handing out bucket credentials.
+// Clients PUT straight to storage through the URLs issued here, then
+// complete the upload so it is verified.
+const fileUploadRoute = createRoute({
+  method: "post",
+  path: "/v1/files",
+  tags: ["Files"],
+  summary: "Start a file upload",
+  description: `Issues a presigned PUT URL for the file's object, or one URL per part for a multipart upload.
+    The URLs expire after ${String(env.PRESIGNED_URL_EXPIRY_SECONDS)}s. Call /v1/files/:fileId/complete once the upload is done.`,
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: FileUploadRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: "Upload URLs issued",
+      content: {
+        "application/json": {
+          schema: FileUploadResponseSchema,
         },
       },
     },
@@ -677,50 +4933,24 @@ const downloadInitiateRoute = createRoute({
         },
       },
     },
-    500: {
-      description: "Internal server error",
+    401: {
+      description: "Missing or invalid credentials",
       content: {
         "application/json": {
           schema: ErrorResponseSchema,
         },
       },
     },
-  },
-});
-
-const downloadCheckRoute = createRoute({
-  method: "post",
-  path: "/v1/download/check",
-  tags: ["Download"],
-  summary: "Check download availability",
-  description:
-    "Checks if a single ID is available for download in S3. Add ?sentry_test=true to trigger an error for Sentry testing.",
-  request: {
-    query: z.object({
-      sentry_test: z.string().optional().openapi({
-        description:
-          "Set to 'true' to trigger an intentional error for Sentry testing",
-      }),
-    }),
-    body: {
-      content: {
-        "application/json": {
-          schema: DownloadCheckRequestSchema,
-        },
-      },
-    },
-  },
-  responses: {
-    200: {
-      description: "Availability check result",
+    403: {
+      description: "Client is not in UPLOAD_CLIENTS",
       content: {
         "application/json": {
-          schema: DownloadCheckResponseSchema,
+          schema: ErrorResponseSchema,
         },
       },
     },
-    400: {
-      description: "Invalid request",
+    409: {
+      description: "The file already exists; uploads never replace files",
       content: {
         "application/json": {
           schema: ErrorResponseSchema,
@@ -738,174 +4968,70 @@ const downloadCheckRoute = createRoute({
   },
 });
 
-app.openapi(downloadInitiateRoute, async (c) => {
-  const { file_ids } = c.req.valid("json");
-  const jobId = crypto.randomUUID();
-
-  // For now, we only support single file downloads via the async queue
-  // The first file_id will be processed
-  const fileId = file_ids[0];
-
-  // Create initial job status
-  const now = new Date().toISOString();
-  await setJobStatus(jobId, {
-    file_id: fileId,
-    status: "queued",
-    progress: 0,
-    downloadUrl: null,
-    size: null,
-    processingTimeMs: null,
-    message: "Job queued for processing",
-    createdAt: now,
-    updatedAt: now,
-  });
-
-  // Queue the job (if Redis is available) or process in background
-  if (downloadQueue) {
-    await downloadQueue.add("download", { jobId, fileId });
-    console.log(
-      `[Download] Queued job=${jobId} file_id=${String(fileId)} to BullMQ`,
-    );
-  } else {
-    // Fallback: process in background without blocking
-    console.log(
-      `[Download] Processing job=${jobId} file_id=${String(fileId)} in-memory (no Redis)`,
-    );
-    // Don't await - let it run in background
-    processDownloadJob(jobId, fileId).catch((err: unknown) => {
-      console.error(`[Download] Background job failed:`, err);
-    });
-  }
-
-  return c.json(
-    {
-      jobId,
-      status: "queued" as const,
-      totalFileIds: file_ids.length,
-    },
-    200,
-  );
-});
-
-app.openapi(downloadCheckRoute, async (c) => {
-  const { sentry_test } = c.req.valid("query");
-  const { file_id } = c.req.valid("json");
-
-  // Intentional error for Sentry testing (hackathon challenge)
-  if (sentry_test === "true") {
-    throw new Error(
-      `Sentry test error triggered for file_id=${String(file_id)} - This should appear in Sentry!`,
-    );
-  }
-
-  const s3Result = await checkS3Availability(file_id);
-  return c.json(
-    {
-      file_id,
-      ...s3Result,
-    },
-    200,
-  );
-});
-
-// Job Status Route - for polling job progress
-const jobStatusRoute = createRoute({
-  method: "get",
-  path: "/v1/download/status/:jobId",
-  tags: ["Download"],
-  summary: "Get download job status (polling)",
-  description: `Poll this endpoint to check the status of a download job.
-    Returns progress percentage, and when complete, provides a presigned S3 URL.
-    Recommended polling interval: 2-5 seconds.`,
+const fileUploadCompleteRoute = createRoute({
+  method: "post",
+  path: "/v1/files/:fileId/complete",
+  tags: ["Files"],
+  summary: "Complete a file upload",
+  description: `Completes a multipart upload (send its uploadId and parts), then checks the object with HeadObject.
+    For single uploads send an empty object.`,
   request: {
     params: z.object({
-      jobId: z
-        .uuid()
-        .openapi({ description: "Job ID returned from /v1/download/initiate" }),
+      fileId: FileIdParamSchema.openapi({
+        description: "File ID (10K to 100M)",
+      }),
     }),
+    body: {
+      content: {
+        "application/json": {
+          schema: FileUploadCompleteRequestSchema,
+        },
+      },
+    },
   },
   responses: {
     200: {
-      description: "Job status",
+      description: "The uploaded file",
       content: {
         "application/json": {
-          schema: JobStatusResponseSchema,
+          schema: FileUploadCompleteResponseSchema,
         },
       },
     },
-    404: {
-      description: "Job not found",
+    400: {
+      description: "Invalid request, or parts that do not match the upload",
       content: {
         "application/json": {
           schema: ErrorResponseSchema,
         },
       },
     },
-    500: {
-      description: "Internal server error",
+    401: {
+      description: "Missing or invalid credentials",
       content: {
         "application/json": {
           schema: ErrorResponseSchema,
         },
       },
     },
-  },
-});
-
-app.openapi(jobStatusRoute, async (c) => {
-  const { jobId } = c.req.valid("param");
-
-  const jobStatus = await getJobStatus(jobId);
-
-  if (!jobStatus) {
-    return c.json(
-      {
-        error: "Not Found",
-        message: `Job ${jobId} not found`,
-        requestId: c.get("requestId") as string | undefined,
-      },
-      404,
-    );
-  }
-
-  return c.json(
-    {
-      jobId,
-      ...jobStatus,
-    },
-    200,
-  );
-});
-
-// Download Start Route - simulates long-running download with random delay
-const downloadStartRoute = createRoute({
-  method: "post",
-  path: "/v1/download/start",
-  tags: ["Download"],
-  summary: "Start file download (long-running)",
-  description: `Starts a file download with simulated processing delay.
-    Processing time varies randomly between ${String(env.DOWNLOAD_DELAY_MIN_MS / 1000)}s and ${String(env.DOWNLOAD_DELAY_MAX_MS / 1000)}s.
-    This endpoint demonstrates long-running operations that may timeout behind proxies.`,
-  request: {
-    body: {
+    403: {
+      description: "Client is not in UPLOAD_CLIENTS",
       content: {
         "application/json": {
-          schema: DownloadStartRequestSchema,
+          schema: ErrorResponseSchema,
         },
       },
     },
-  },
-  responses: {
-    200: {
-      description: "Download completed successfully",
+    409: {
+      description: "The file already exists; uploads never replace files",
       content: {
         "application/json": {
-          schema: DownloadStartResponseSchema,
+          schema: ErrorResponseSchema,
         },
       },
     },
-    400: {
-      description: "Invalid request",
+    404: {
+      description: "Nothing was uploaded for this file",
       content: {
         "application/json": {
           schema: ErrorResponseSchema,
@@ -923,57 +5049,268 @@ const downloadStartRoute = createRoute({
   },
 });
 
-app.openapi(downloadStartRoute, async (c) => {
-  const { file_id } = c.req.valid("json");
-  const startTime = Date.now();
+// Uploads can replace what other clients' jobs serve, so only named,
+// authenticated clients may publish (clientId is null without auth)
+const canUpload = (clientId: string | null): boolean =>
+  clientId !== null && (env.UPLOAD_CLIENTS?.includes(clientId) ?? false);
 
-  // Get random delay and log it
-  const delayMs = getRandomDelay();
-  const delaySec = (delayMs / 1000).toFixed(1);
-  const minDelaySec = (env.DOWNLOAD_DELAY_MIN_MS / 1000).toFixed(0);
-  const maxDelaySec = (env.DOWNLOAD_DELAY_MAX_MS / 1000).toFixed(0);
-  console.log(
-    `[Download] Starting file_id=${String(file_id)} | delay=${delaySec}s (range: ${minDelaySec}s-${maxDelaySec}s) | enabled=${String(env.DOWNLOAD_DELAY_ENABLED)}`,
+const fileExistsResponse = (c: Context, fileId: number) =>
+  c.json(
+    {
+      error: "Conflict",
+      message: `File ${String(fileId)} already exists; uploads never replace files`,
+      requestId: c.get("requestId") as string | undefined,
+    },
+    409,
   );
 
-  // Simulate long-running download process
-  await sleep(delayMs);
+app.openapi(fileUploadRoute, async (c) => {
+  const { file_id, contentType, parts } = c.req.valid("json");
+  if (!canUpload(c.get("clientId"))) {
+    return c.json(
+      {
+        error: "Forbidden",
+        message: "This client may not upload files",
+        requestId: c.get("requestId") as string | undefined,
+      },
+      403,
+    );
+  }
 
-  // Check if file is available in S3
-  const s3Result = await checkS3Availability(file_id);
-  const processingTimeMs = Date.now() - startTime;
+  const s3Key = sanitizeS3Key(file_id);
+  // Checked up front for a clear answer; storage enforces it on the write
+  if (await storage.headObject(s3Key)) return fileExistsResponse(c, file_id);
+
+  const expiresIn = env.PRESIGNED_URL_EXPIRY_SECONDS;
+  const expiresAt = new Date(Date.now() + expiresIn * 1000).toISOString();
+
+  if (parts === undefined) {
+    const uploadUrl = await storage.getUploadUrl(s3Key, expiresIn, contentType);
+    console.log(`[Upload] Issued upload URL for file_id=${String(file_id)}`);
+    return c.json(
+      {
+        file_id,
+        s3Key,
+        contentType,
+        uploadUrl,
+        uploadHeaders: { "Content-Type": contentType, "If-None-Match": "*" },
+        uploadId: null,
+        parts: [],
+        expiresAt,
+      },
+      201,
+    );
+  }
 
+  const uploadId = await storage.createMultipartUpload(s3Key, contentType);
+  const partUrls = await Promise.all(
+    Array.from({ length: parts }, async (_, i) => ({
+      partNumber: i + 1,
+      uploadUrl: await storage.getUploadPartUrl(
+        s3Key,
+        uploadId,
+        i + 1,
+        expiresIn,
+      ),
+    })),
+  );
   console.log(
-    `[Download] Completed file_id=${String(file_id)}, actual_time=${String(processingTimeMs)}ms, available=${String(s3Result.available)}`,
+    `[Upload] Started multipart upload for file_id=${String(file_id)}, parts=${String(parts)}`,
+  );
+  return c.json(
+    {
+      file_id,
+      s3Key,
+      contentType,
+      uploadUrl: null,
+      uploadHeaders: {},
+      uploadId,
+      parts: partUrls,
+      expiresAt,
+    },
+    201,
   );
+});
 
-  if (s3Result.available) {
+app.openapi(fileUploadCompleteRoute, async (c) => {
+  const { fileId } = c.req.valid("param");
+  const { uploadId, parts } = c.req.valid("json");
+  if (!canUpload(c.get("clientId"))) {
     return c.json(
       {
-        file_id,
-        status: "completed" as const,
-        downloadUrl: `https://storage.example.com/${s3Result.s3Key ?? ""}?token=${crypto.randomUUID()}`,
-        size: s3Result.size,
-        processingTimeMs,
-        message: `Download ready after ${(processingTimeMs / 1000).toFixed(1)} seconds`,
+        error: "Forbidden",
+        message: "This client may not upload files",
+        requestId: c.get("requestId") as string | undefined,
       },
-      200,
+      403,
     );
-  } else {
+  }
+
+  const s3Key = sanitizeS3Key(fileId);
+  if (uploadId !== undefined && parts !== undefined) {
+    try {
+      await storage.completeMultipartUpload(s3Key, uploadId, parts);
+    } catch (err) {
+      if (isObjectExistsError(err)) return fileExistsResponse(c, fileId);
+      if (!isInvalidUploadError(err)) throw err;
+      return c.json(
+        {
+          error: "Bad Request",
+          message: `Upload could not be completed: ${describeError(err)}`,
+          requestId: c.get("requestId") as string | undefined,
+        },
+        400,
+      );
+    }
+  }
+
+  // Whatever the client reports, the object in storage is the proof
+  fileMetadataCache.delete(s3Key);
+  const info = await storage.headObject(s3Key);
+  if (!info) {
     return c.json(
       {
-        file_id,
-        status: "failed" as const,
-        downloadUrl: null,
-        size: null,
-        processingTimeMs,
-        message: `File not found after ${(processingTimeMs / 1000).toFixed(1)} seconds of processing`,
+        error: "Not Found",
+        message: `File ${String(fileId)} has not been uploaded`,
+        requestId: c.get("requestId") as string | undefined,
       },
-      200,
+      404,
     );
   }
+  console.log(
+    `[Upload] Completed file_id=${String(fileId)}, size=${String(info.size)}`,
+  );
+  return c.json(
+    {
+      file_id: fileId,
+      s3Key,
+      size: info.size,
+      contentType: info.contentType,
+      etag: info.etag,
+      lastModified: info.lastModified?.toISOString() ?? null,
+    },
+    200,
+  );
 });
 
+// Downloads from local and mock storage. The URL's signature is the
+// credential, as with S3 presigned URLs, so this sits outside /v1 and its
+// authentication.
+if (signedStorage) {
+  const downloadStorage = signedStorage;
+  app.get("/storage/*", async (c) => {
+    const key = c.req.path.slice("/storage/".length);
+    if (
+      !downloadStorage.verifyDownload(
+        key,
+        c.req.query("expires"),
+        c.req.query("signature"),
+      )
+    ) {
+      return c.json(
+        {
+          error: "Forbidden",
+          message: "Download URL is invalid or has expired",
+          requestId: c.get("requestId") as string | undefined,
+        },
+        403,
+      );
+    }
+    const info = await downloadStorage.headObject(key);
+    if (!info) {
+      return c.json(
+        {
+          error: "Not Found",
+          message: "File not found",
+          requestId: c.get("requestId") as string | undefined,
+        },
+        404,
+      );
+    }
+    const body = await downloadStorage.getObject(key);
+    return c.body(Readable.toWeb(body) as ReadableStream<Uint8Array>, 200, {
+      "Content-Type":
+        info.contentType ??
+        (key.endsWith(".zip") ? "application/zip" : "application/octet-stream"),
+      ...(info.size !== null && { "Content-Length": String(info.size) }),
+      "Content-Disposition": `attachment; filename="${key.split("/").at(-1) ?? "download"}"`,
+    });
+  });
+
+  // Uploads through URLs from /v1/files, answered with the ETag S3 would give
+  app.put("/storage/*", async (c) => {
+    const key = c.req.path.slice("/storage/".length);
+    const uploadId = c.req.query("uploadId");
+    const part =
+      uploadId === undefined
+        ? null
+        : { uploadId, partNumber: Number(c.req.query("partNumber")) };
+    if (
+      !downloadStorage.verifyUpload(
+        key,
+        c.req.query("expires"),
+        c.req.query("signature"),
+        part,
+      )
+    ) {
+      return c.json(
+        {
+          error: "Forbidden",
+          message: "Upload URL is invalid or has expired",
+          requestId: c.get("requestId") as string | undefined,
+        },
+        403,
+      );
+    }
+
+    const body = c.req.raw.body
+      ? Readable.fromWeb(c.req.raw.body as NodeReadableStream<Uint8Array>)
+      : Readable.from([]);
+    let etag: string | null | undefined;
+    if (part) {
+      try {
+        etag = await downloadStorage.putUploadPart(
+          key,
+          part,
+          body,
+          c.req.raw.signal,
+        );
+      } catch (err) {
+        if (!isInvalidUploadError(err)) throw err;
+        return c.json(
+          {
+            error: "Not Found",
+            message: `Upload ${part.uploadId} not found`,
+            requestId: c.get("requestId") as string | undefined,
+          },
+          404,
+        );
+      }
+    } else {
+      try {
+        await downloadStorage.putUpload(key, body, {
+          contentType:
+            c.req.header("content-type") ?? "application/octet-stream",
+          signal: c.req.raw.signal,
+        });
+      } catch (err) {
+        if (!isObjectExistsError(err)) throw err;
+        return c.json(
+          {
+            error: "Precondition Failed",
+            message: "The file already exists; uploads never replace files",
+            requestId: c.get("requestId") as string | undefined,
+          },
+          412,
+        );
+      }
+      etag = (await downloadStorage.headObject(key))?.etag;
+    }
+    if (etag) c.header("ETag", etag);
+    return c.body(null, 200);
+  });
+}
+
 // OpenAPI spec endpoint (disabled in production)
 if (env.NODE_ENV !== "production") {
   app.doc("/openapi", {
@@ -984,6 +5321,8 @@ if (env.NODE_ENV !== "production") {
       description: "API for Delineate Hackathon Challenge",
     },
     servers: [{ url: "http://localhost:3000", description: "Local server" }],
+    // Either scheme is accepted (only enforced when credentials are configured)
+    security: [{ ApiKeyAuth: [] }, { BearerAuth: [] }],
   });
 
   // Scalar API docs
@@ -992,24 +5331,66 @@ if (env.NODE_ENV !== "production") {
 
 // Graceful shutdown handler
 const gracefulShutdown = (server: ServerType) => (signal: string) => {
-  console.log(`\n${signal} received. Starting graceful shutdown...`);
+  console.log(
+    `\n${signal} received. Starting graceful shutdown (role=${env.SERVICE_ROLE})...`,
+  );
+
+  // Draining waits on Redis, which queues commands while it is unreachable
+  setTimeout(() => {
+    console.error(
+      `Graceful shutdown did not finish within ${String(env.SHUTDOWN_TIMEOUT_MS)}ms; exiting`,
+    );
+    // eslint-disable-next-line n/no-process-exit -- nothing left to throw to
+    process.exit(1);
+  }, env.SHUTDOWN_TIMEOUT_MS).unref();
+
+  // End long-lived streams so open connections can drain
+  shutdownController.abort();
+
+  // Workers stop taking jobs right away and finish the ones they hold while
+  // the HTTP server drains, instead of waiting for it
+  const closeWorkers = async () => {
+    if (downloadWorker) {
+      await downloadWorker.close();
+      console.log("BullMQ worker closed");
+    }
+    if (localDownloadQueue) {
+      // Waiting jobs stay in the journal for the next start
+      await localDownloadQueue.close();
+      console.log("Local queue closed");
+    }
+    if (webhookWorker) {
+      await webhookWorker.close();
+      console.log("Webhook worker closed");
+    }
+  };
+  const workersClosed = closeWorkers().catch((err: unknown) => {
+    console.error("Error closing workers:", err);
+  });
 
   // Stop accepting new connections
   server.close(() => {
     console.log("HTTP server closed");
 
-    // Close BullMQ worker and queue
+    // Close queues and connections once the workers no longer need them
     const closeQueue = async () => {
-      if (downloadWorker) {
-        await downloadWorker.close();
-        console.log("BullMQ worker closed");
-      }
+      await workersClosed;
       if (downloadQueue) {
         await downloadQueue.close();
         console.log("BullMQ queue closed");
       }
+      if (webhookQueue) {
+        await webhookQueue.close();
+        console.log("Webhook queue closed");
+      }
+      if (redisSubscriber) {
+        redisSubscriber.disconnect();
+        console.log("Redis subscriber closed");
+      }
+      await jobStore.close();
+      console.log("Job store closed");
       if (redisConnection) {
-        await redisConnection.quit();
+        redisConnection.disconnect();
         console.log("Redis connection closed");
       }
     };
@@ -1029,9 +5410,9 @@ const gracefulShutdown = (server: ServerType) => (signal: string) => {
             console.error("Error shutting down OpenTelemetry:", err);
           })
           .finally(() => {
-            // Destroy S3 client
-            s3Client.destroy();
-            console.log("S3 client destroyed");
+            // Release the storage backend (destroys the S3 client)
+            storage.close();
+            console.log("Storage backend closed");
             console.log("Graceful shutdown completed");
           });
       });
@@ -1047,12 +5428,18 @@ const server = serve(
   (info) => {
     console.log(`Server is running on http://localhost:${String(info.port)}`);
     console.log(`Environment: ${env.NODE_ENV}`);
-    if (env.NODE_ENV !== "production") {
+    console.log(
+      `Role: ${env.SERVICE_ROLE}${(downloadWorker ?? localDownloadQueue) ? ` (worker concurrency ${String(env.DOWNLOAD_WORKER_CONCURRENCY)})` : ""}`,
+    );
+    if (runsApi && env.NODE_ENV !== "production") {
       console.log(`API docs: http://localhost:${String(info.port)}/docs`);
     }
   },
 );
 
+// Handle WebSocket upgrades on the same server
+nodeWebSocket.injectWebSocket(server);
+
 // Register shutdown handlers
 const shutdown = gracefulShutdown(server);
 process.on("SIGTERM", () => {
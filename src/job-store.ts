@@ -0,0 +1,366 @@
+import type { Redis } from "ioredis";
+import { mkdir } from "node:fs/promises";
+import path from "node:path";
+
+// Fields every store needs to index and count jobs; the rest of the record
+// is opaque to it
+export interface StoredJob {
+  status: string;
+  owner: string | null;
+  createdAt: string;
+}
+
+export interface JobIndexEntry {
+  jobId: string;
+  createdAt: number; // ms since epoch
+}
+
+// Job records expire `ttlMs` after their last write. Listing is newest first
+// by createdAt, ties broken by jobId (descending), per owner.
+export interface JobStore<T extends StoredJob> {
+  get(jobId: string): Promise<T | null>;
+  // Results line up with jobIds; null for unknown or expired jobs
+  getMany(jobIds: string[]): Promise<(T | null)[]>;
+  // Write the record and restart its TTL
+  set(jobId: string, record: T): Promise<void>;
+  // set(), done atomically only if the stored record's status is not one of
+  // `statuses`; resolves false when the write was skipped
+  setUnlessStatus(
+    jobId: string,
+    record: T,
+    statuses: readonly string[],
+  ): Promise<boolean>;
+  // Make a job visible to list(); called once when the job is created
+  addToIndex(jobId: string, record: T): Promise<void>;
+  // Up to `count` of the owner's entries created within [fromMs, toMs] that
+  // come strictly after the `after` entry in listing order
+  list(
+    owner: string | null,
+    after: JobIndexEntry | null,
+    fromMs: number,
+    toMs: number,
+    count: number,
+  ): Promise<JobIndexEntry[]>;
+  close(): Promise<void>;
+}
+
+const isAfterCursor = (
+  entry: JobIndexEntry,
+  after: JobIndexEntry | null,
+): boolean =>
+  !after ||
+  entry.createdAt < after.createdAt ||
+  (entry.createdAt === after.createdAt && entry.jobId < after.jobId);
+
+// Listing for stores that keep every record locally and derive the index
+// from the records themselves
+const selectIndexEntries = (
+  records: Iterable<[string, StoredJob]>,
+  owner: string | null,
+  after: JobIndexEntry | null,
+  fromMs: number,
+  toMs: number,
+  count: number,
+): JobIndexEntry[] =>
+  Array.from(records)
+    .filter(([, record]) => record.owner === owner)
+    .map(([jobId, record]) => ({
+      jobId,
+      createdAt: new Date(record.createdAt).getTime(),
+    }))
+    .filter(
+      (entry) =>
+        entry.createdAt >= fromMs &&
+        entry.createdAt <= toMs &&
+        isAfterCursor(entry, after),
+    )
+    .sort((a, b) =>
+      a.createdAt === b.createdAt
+        ? Number(a.jobId < b.jobId) - Number(a.jobId > b.jobId)
+        : b.createdAt - a.createdAt,
+    )
+    .slice(0, count);
+
+// KEYS[1] job key; ARGV[1] TTL in ms, ARGV[2] record, ARGV[3..] statuses
+const SET_UNLESS_STATUS_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+if current then
+  local status = cjson.decode(current).status
+  for i = 3, #ARGV do
+    if status == ARGV[i] then return 0 end
+  end
+end
+redis.call("SET", KEYS[1], ARGV[2], "PX", ARGV[1])
+return 1
+`;
+
+// Redis: one key per job plus one sorted set per owner scored by createdAt.
+// The connection belongs to the caller and is not closed by the store.
+export const createRedisJobStore = <T extends StoredJob>(
+  client: Redis,
+  { ttlMs }: { ttlMs: number },
+): JobStore<T> => {
+  const jobKey = (jobId: string) => `job:${jobId}`;
+  const indexKey = (owner: string | null) =>
+    owner === null ? "jobs:by-created" : `jobs:by-created:${owner}`;
+
+  const getMany = async (jobIds: string[]): Promise<(T | null)[]> => {
+    if (jobIds.length === 0) return [];
+    const values = await client.mget(jobIds.map(jobKey));
+    return values.map((value) => (value ? (JSON.parse(value) as T) : null));
+  };
+
+  return {
+    get: async (jobId) => {
+      const data = await client.get(jobKey(jobId));
+      return data ? (JSON.parse(data) as T) : null;
+    },
+    getMany,
+    set: async (jobId, record) => {
+      await client.set(jobKey(jobId), JSON.stringify(record), "PX", ttlMs);
+    },
+    setUnlessStatus: async (jobId, record, statuses) => {
+      const written = await client.eval(
+        SET_UNLESS_STATUS_SCRIPT,
+        1,
+        jobKey(jobId),
+        ttlMs,
+        JSON.stringify(record),
+        ...statuses,
+      );
+      return written === 1;
+    },
+    addToIndex: async (jobId, record) => {
+      const key = indexKey(record.owner);
+      // Entries outlive their job keys by at most one write; drop the expired ones
+      await client
+        .multi()
+        .zadd(key, new Date(record.createdAt).getTime(), jobId)
+        .zremrangebyscore(key, "-inf", Date.now() - ttlMs)
+        .pexpire(key, ttlMs)
+        .exec();
+    },
+    list: async (owner, after, fromMs, toMs, count) => {
+      const entries: JobIndexEntry[] = [];
+      let max = String(toMs);
+      if (after) {
+        // Jobs sharing the cursor's millisecond, then strictly older ones
+        const ties = await client.zrevrangebyscore(
+          indexKey(owner),
+          after.createdAt,
+          after.createdAt,
+        );
+        for (const jobId of ties) {
+          const entry = { jobId, createdAt: after.createdAt };
+          if (isAfterCursor(entry, after)) entries.push(entry);
+        }
+        max = `(${String(after.createdAt)}`;
+      }
+      const older = await client.zrevrangebyscore(
+        indexKey(owner),
+        max,
+        fromMs,
+        "WITHSCORES",
+        "LIMIT",
+        0,
+        count,
+      );
+      for (let i = 0; i < older.length; i += 2) {
+        entries.push({ jobId: older[i], createdAt: Number(older[i + 1]) });
+      }
+      return entries.slice(0, count);
+    },
+    close: () => Promise.resolve(),
+  };
+};
+
+// In-memory: bounded by `maxEntries` with least-recently-used eviction.
+// Map iteration order doubles as recency order, since reads and writes
+// move an entry to the end.
+export const createMemoryJobStore = <T extends StoredJob>({
+  ttlMs,
+  maxEntries,
+}: {
+  ttlMs: number;
+  maxEntries: number;
+}): JobStore<T> => {
+  const entries = new Map<string, { record: T; expiresAt: number }>();
+
+  const read = (jobId: string): T | null => {
+    const entry = entries.get(jobId);
+    if (!entry) return null;
+    entries.delete(jobId);
+    if (entry.expiresAt <= Date.now()) return null;
+    entries.set(jobId, entry);
+    return entry.record;
+  };
+
+  function* live(): Generator<[string, T]> {
+    const now = Date.now();
+    for (const [jobId, entry] of entries) {
+      if (entry.expiresAt > now) yield [jobId, entry.record];
+    }
+  }
+
+  const write = (jobId: string, record: T): void => {
+    const now = Date.now();
+    entries.delete(jobId);
+    entries.set(jobId, { record, expiresAt: now + ttlMs });
+    // Drop expired entries from the stale end, then evict beyond capacity
+    for (const [storedId, entry] of entries) {
+      if (entries.size <= maxEntries && entry.expiresAt > now) break;
+      entries.delete(storedId);
+    }
+  };
+
+  return {
+    get: (jobId) => Promise.resolve(read(jobId)),
+    getMany: (jobIds) => Promise.resolve(jobIds.map(read)),
+    set: (jobId, record) => {
+      write(jobId, record);
+      return Promise.resolve();
+    },
+    setUnlessStatus: (jobId, record, statuses) => {
+      const current = read(jobId);
+      if (current && statuses.includes(current.status)) {
+        return Promise.resolve(false);
+      }
+      write(jobId, record);
+      return Promise.resolve(true);
+    },
+    addToIndex: () => Promise.resolve(), // The records are the index
+    list: (owner, after, fromMs, toMs, count) =>
+      Promise.resolve(
+        selectIndexEntries(live(), owner, after, fromMs, toMs, count),
+      ),
+    close: () => {
+      entries.clear();
+      return Promise.resolve();
+    },
+  };
+};
+
+// SQLite file: survives restarts without Redis. Suitable for a single
+// process; node:sqlite is loaded only when this store is selected.
+export const createSqliteJobStore = async <T extends StoredJob>({
+  filename,
+  ttlMs,
+}: {
+  filename: string;
+  ttlMs: number;
+}): Promise<JobStore<T>> => {
+  const { DatabaseSync } = await import("node:sqlite");
+  await mkdir(path.dirname(filename), { recursive: true });
+  const db = new DatabaseSync(filename);
+  db.exec(`
+    PRAGMA journal_mode = WAL;
+    CREATE TABLE IF NOT EXISTS jobs (
+      job_id TEXT PRIMARY KEY,
+      owner TEXT,
+      status TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS jobs_by_owner ON jobs (owner, created_at, job_id);
+    CREATE INDEX IF NOT EXISTS jobs_by_expiry ON jobs (expires_at);
+  `);
+
+  const selectJob = db.prepare(
+    "SELECT data FROM jobs WHERE job_id = ? AND expires_at > ?",
+  );
+  const upsertJob = db.prepare(`
+    INSERT INTO jobs (job_id, owner, status, created_at, expires_at, data)
+    VALUES (:jobId, :owner, :status, :createdAt, :expiresAt, :data)
+    ON CONFLICT (job_id) DO UPDATE SET
+      owner = excluded.owner,
+      status = excluded.status,
+      created_at = excluded.created_at,
+      expires_at = excluded.expires_at,
+      data = excluded.data
+  `);
+  // An expired row counts as missing, whatever its status
+  const upsertJobUnlessStatus = db.prepare(`
+    INSERT INTO jobs (job_id, owner, status, created_at, expires_at, data)
+    VALUES (:jobId, :owner, :status, :createdAt, :expiresAt, :data)
+    ON CONFLICT (job_id) DO UPDATE SET
+      owner = excluded.owner,
+      status = excluded.status,
+      created_at = excluded.created_at,
+      expires_at = excluded.expires_at,
+      data = excluded.data
+    WHERE jobs.expires_at <= :now
+      OR jobs.status NOT IN (SELECT value FROM json_each(:statuses))
+  `);
+  const deleteExpired = db.prepare("DELETE FROM jobs WHERE expires_at <= ?");
+  const selectIndex = db.prepare(`
+    SELECT job_id, created_at FROM jobs
+    WHERE owner IS :owner
+      AND expires_at > :now
+      AND created_at BETWEEN :fromMs AND :toMs
+      AND (:afterId IS NULL
+        OR created_at < :afterMs
+        OR (created_at = :afterMs AND job_id < :afterId))
+    ORDER BY created_at DESC, job_id DESC
+    LIMIT :count
+  `);
+
+  const read = (jobId: string): T | null => {
+    const row = selectJob.get(jobId, Date.now()) as
+      | { data: string }
+      | undefined;
+    return row ? (JSON.parse(row.data) as T) : null;
+  };
+
+  return {
+    get: (jobId) => Promise.resolve(read(jobId)),
+    getMany: (jobIds) => Promise.resolve(jobIds.map(read)),
+    set: (jobId, record) => {
+      const now = Date.now();
+      upsertJob.run({
+        jobId,
+        owner: record.owner,
+        status: record.status,
+        createdAt: new Date(record.createdAt).getTime(),
+        expiresAt: now + ttlMs,
+        data: JSON.stringify(record),
+      });
+      deleteExpired.run(now);
+      return Promise.resolve();
+    },
+    setUnlessStatus: (jobId, record, statuses) => {
+      const now = Date.now();
+      const { changes } = upsertJobUnlessStatus.run({
+        jobId,
+        owner: record.owner,
+        status: record.status,
+        createdAt: new Date(record.createdAt).getTime(),
+        expiresAt: now + ttlMs,
+        data: JSON.stringify(record),
+        now,
+        statuses: JSON.stringify(statuses),
+      });
+      deleteExpired.run(now);
+      return Promise.resolve(Number(changes) > 0);
+    },
+    addToIndex: () => Promise.resolve(), // The jobs table is the index
+    list: (owner, after, fromMs, toMs, count) => {
+      const rows = selectIndex.all({
+        owner,
+        now: Date.now(),
+        fromMs,
+        toMs,
+        afterId: after?.jobId ?? null,
+        afterMs: after?.createdAt ?? null,
+        count,
+      }) as { job_id: string; created_at: number }[];
+      return Promise.resolve(
+        rows.map((row) => ({ jobId: row.job_id, createdAt: row.created_at })),
+      );
+    },
+    close: () => {
+      db.close();
+      return Promise.resolve();
+    },
+  };
+};
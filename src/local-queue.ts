@@ -0,0 +1,345 @@
+import { EventEmitter } from "node:events";
+import { appendFile, mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// Subset of BullMQ's JobsOptions the app uses. Retry delays come from the
+// queue's backoffStrategy, as with BullMQ's custom backoff types.
+export interface LocalJobOptions {
+  jobId?: string;
+  attempts?: number;
+  backoff?: { type: string };
+}
+
+export type LocalJobState =
+  | "waiting"
+  | "active"
+  | "delayed"
+  | "completed"
+  | "failed";
+
+export interface LocalQueueOptions {
+  concurrency: number;
+  // Append-only journal of unfinished jobs; they are picked up again after a restart
+  journalPath?: string;
+  backoffStrategy?: (attemptsMade: number) => number;
+}
+
+type JournalEntry =
+  | {
+      op: "add";
+      id: string;
+      name: string;
+      data: unknown;
+      opts: LocalJobOptions;
+      timestamp: number;
+    }
+  | { op: "attempt"; id: string; attemptsMade: number }
+  | { op: "done"; id: string };
+
+export class LocalJob<T> {
+  attemptsMade = 0;
+
+  constructor(
+    private readonly queue: LocalQueue<T>,
+    readonly id: string,
+    readonly name: string,
+    readonly data: T,
+    readonly opts: LocalJobOptions,
+    readonly timestamp: number,
+  ) {}
+
+  getState(): Promise<LocalJobState | "unknown"> {
+    return Promise.resolve(this.queue.stateOf(this.id));
+  }
+
+  async isActive(): Promise<boolean> {
+    return (await this.getState()) === "active";
+  }
+
+  // Like BullMQ, a job that is being processed cannot be removed
+  remove(): Promise<void> {
+    try {
+      this.queue.removeJob(this.id);
+      return Promise.resolve();
+    } catch (err) {
+      return Promise.reject(err as Error);
+    }
+  }
+}
+
+// In-process stand-in for a BullMQ Queue and Worker pair: FIFO, at most
+// `concurrency` jobs at once, retries with backoff, and the same events
+// (active, completed, failed, drained, error, closed).
+export class LocalQueue<T> extends EventEmitter {
+  private readonly waiting: LocalJob<T>[] = [];
+  private readonly jobs = new Map<string, LocalJob<T>>();
+  private readonly states = new Map<string, "waiting" | "active" | "delayed">();
+  private readonly retryTimers = new Map<string, NodeJS.Timeout>();
+  private readonly running = new Set<Promise<void>>();
+  private completedCount = 0;
+  private failedCount = 0;
+  private closing = false;
+  // Jobs resumed from the journal come before anything added meanwhile
+  private readonly replayed: Promise<void>;
+  // Journal I/O, one operation at a time and in order
+  private journal: Promise<void>;
+
+  constructor(
+    readonly name: string,
+    private readonly processor: (job: LocalJob<T>) => Promise<void>,
+    private readonly options: LocalQueueOptions,
+  ) {
+    super();
+    this.replayed = options.journalPath
+      ? this.replayJournal(options.journalPath)
+      : Promise.resolve();
+    this.journal = this.replayed;
+  }
+
+  async add(
+    name: string,
+    data: T,
+    opts: LocalJobOptions = {},
+  ): Promise<LocalJob<T>> {
+    await this.replayed;
+    const id = opts.jobId ?? crypto.randomUUID();
+    // Same as BullMQ: adding an existing jobId returns the existing job
+    const existing = this.jobs.get(id);
+    if (existing) return existing;
+
+    const job = new LocalJob(this, id, name, data, opts, Date.now());
+    this.appendJournal({
+      op: "add",
+      id,
+      name,
+      data,
+      opts,
+      timestamp: job.timestamp,
+    });
+    this.enqueue(job);
+    return job;
+  }
+
+  async getJob(id: string): Promise<LocalJob<T> | undefined> {
+    await this.replayed;
+    return this.jobs.get(id);
+  }
+
+  async getJobCounts(
+    ...types: LocalJobState[]
+  ): Promise<Record<string, number>> {
+    await this.replayed;
+    const counts: Record<LocalJobState, number> = {
+      waiting: 0,
+      active: 0,
+      delayed: 0,
+      completed: this.completedCount,
+      failed: this.failedCount,
+    };
+    for (const state of this.states.values()) counts[state]++;
+    return Object.fromEntries(
+      (types.length > 0 ? types : Object.keys(counts)).map((type) => [
+        type,
+        counts[type as LocalJobState],
+      ]),
+    );
+  }
+
+  isRunning(): boolean {
+    return !this.closing;
+  }
+
+  stateOf(id: string): LocalJobState | "unknown" {
+    return this.states.get(id) ?? "unknown";
+  }
+
+  removeJob(id: string): void {
+    const state = this.states.get(id);
+    if (state === undefined) return;
+    if (state === "active") {
+      throw new Error(`Job ${id} is active and cannot be removed`);
+    }
+    if (state === "waiting") {
+      this.waiting.splice(
+        this.waiting.findIndex((job) => job.id === id),
+        1,
+      );
+    }
+    clearTimeout(this.retryTimers.get(id));
+    this.retryTimers.delete(id);
+    this.forget(id);
+  }
+
+  // Stop starting jobs and wait for the active ones and the journal.
+  // Waiting and delayed jobs stay in the journal for the next start.
+  async close(): Promise<void> {
+    this.closing = true;
+    for (const timer of this.retryTimers.values()) clearTimeout(timer);
+    this.retryTimers.clear();
+    await Promise.all(this.running);
+    await this.journal;
+    this.emit("closed");
+  }
+
+  private enqueue(job: LocalJob<T>, start = true): void {
+    this.jobs.set(job.id, job);
+    this.states.set(job.id, "waiting");
+    this.waiting.push(job);
+    if (start) this.pump();
+  }
+
+  private pump(): void {
+    while (!this.closing && this.running.size < this.options.concurrency) {
+      const job = this.waiting.shift();
+      if (!job) break;
+      const run = this.process(job).finally(() => {
+        this.running.delete(run);
+        this.pump();
+      });
+      this.running.add(run);
+    }
+    if (
+      this.running.size === 0 &&
+      this.waiting.length === 0 &&
+      this.retryTimers.size === 0 &&
+      !this.closing
+    ) {
+      this.emit("drained");
+    }
+  }
+
+  private async process(job: LocalJob<T>): Promise<void> {
+    this.states.set(job.id, "active");
+    this.emit("active", job);
+    try {
+      await this.processor(job);
+      job.attemptsMade++;
+      this.completedCount++;
+      this.forget(job.id);
+      this.emit("completed", job);
+    } catch (err) {
+      job.attemptsMade++;
+      if (job.attemptsMade < (job.opts.attempts ?? 1)) {
+        this.scheduleRetry(job);
+      } else {
+        this.failedCount++;
+        this.forget(job.id);
+      }
+      this.emit("failed", job, err);
+    }
+  }
+
+  private scheduleRetry(job: LocalJob<T>): void {
+    this.appendJournal({
+      op: "attempt",
+      id: job.id,
+      attemptsMade: job.attemptsMade,
+    });
+    this.states.set(job.id, "delayed");
+    if (this.closing) return; // Resumed from the journal after a restart
+    const delay = this.options.backoffStrategy?.(job.attemptsMade) ?? 0;
+    this.retryTimers.set(
+      job.id,
+      setTimeout(() => {
+        this.retryTimers.delete(job.id);
+        this.states.set(job.id, "waiting");
+        this.waiting.push(job);
+        this.pump();
+      }, delay),
+    );
+  }
+
+  private forget(id: string): void {
+    this.jobs.delete(id);
+    this.states.delete(id);
+    this.appendJournal({ op: "done", id });
+    // Nothing left to resume, so the journal can start over
+    if (this.jobs.size === 0) {
+      this.updateJournal((journalPath) => writeFile(journalPath, ""));
+    }
+  }
+
+  private appendJournal(entry: JournalEntry): void {
+    this.updateJournal((journalPath) =>
+      appendFile(journalPath, `${JSON.stringify(entry)}\n`),
+    );
+  }
+
+  // Queued behind earlier journal I/O; failures are reported as "error"
+  private updateJournal(write: (journalPath: string) => Promise<void>): void {
+    const { journalPath } = this.options;
+    if (!journalPath) return;
+    this.journal = this.journal
+      .then(() => write(journalPath))
+      .catch((err: unknown) => {
+        this.emit("error", err);
+      });
+  }
+
+  // Re-enqueue unfinished jobs in their original order, then compact the
+  // journal down to them. A torn last line from a crash is skipped.
+  private async replayJournal(journalPath: string): Promise<void> {
+    let contents: string;
+    try {
+      await mkdir(path.dirname(journalPath), { recursive: true });
+      contents = await readFile(journalPath, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.emit("error", err);
+      }
+      return;
+    }
+
+    const pending = new Map<
+      string,
+      { entry: JournalEntry & { op: "add" }; attemptsMade: number }
+    >();
+    for (const line of contents.split("\n")) {
+      if (!line.trim()) continue;
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(line) as JournalEntry;
+      } catch {
+        continue;
+      }
+      if (entry.op === "add") {
+        pending.set(entry.id, { entry, attemptsMade: 0 });
+      } else if (entry.op === "attempt") {
+        const job = pending.get(entry.id);
+        if (job) job.attemptsMade = entry.attemptsMade;
+      } else {
+        pending.delete(entry.id);
+      }
+    }
+
+    const lines: string[] = [];
+    for (const { entry, attemptsMade } of pending.values()) {
+      lines.push(JSON.stringify(entry));
+      if (attemptsMade > 0) {
+        lines.push(
+          JSON.stringify({ op: "attempt", id: entry.id, attemptsMade }),
+        );
+      }
+    }
+    try {
+      await writeFile(journalPath, lines.map((line) => `${line}\n`).join(""));
+    } catch (err) {
+      this.emit("error", err);
+    }
+
+    for (const { entry, attemptsMade } of pending.values()) {
+      const job = new LocalJob(
+        this,
+        entry.id,
+        entry.name,
+        entry.data as T,
+        entry.opts,
+        entry.timestamp,
+      );
+      job.attemptsMade = attemptsMade;
+      this.enqueue(job, false);
+    }
+    // The constructor has returned by now, so listeners are attached
+    this.pump();
+  }
+}
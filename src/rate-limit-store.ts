@@ -0,0 +1,144 @@
+import type { ClientRateLimitInfo, Store } from "hono-rate-limiter";
+import type { ChainableCommander, Redis } from "ioredis";
+
+interface LocalCounter {
+  totalHits: number;
+  resetTime: Date;
+}
+
+// Local counters are pruned of finished windows beyond this many keys
+const LOCAL_COUNTERS_PRUNE_AT = 10000;
+
+// Rate limit counters shared by every replica: a fixed window per key. While
+// Redis is unreachable or failing, each replica counts on its own, so
+// requests stay limited instead of failing with the store.
+// The connection belongs to the caller and is not closed by the store.
+export const createRedisRateLimitStore = (
+  client: Redis,
+  options: { windowMs: number },
+): Store => {
+  let { windowMs } = options;
+  const redisKey = (key: string) => `ratelimit:${key}`;
+  const toInfo = (hits: unknown, ttlMs: unknown): ClientRateLimitInfo => ({
+    totalHits: Number(hits ?? 0),
+    resetTime: new Date(Date.now() + Math.max(Number(ttlMs), 0)),
+  });
+
+  // MULTI replies carry per-command errors instead of rejecting
+  const exec = async (multi: ChainableCommander): Promise<unknown[]> => {
+    const results = await multi.exec();
+    if (!results) throw new Error("Redis transaction was aborted");
+    return results.map(([err, value]) => {
+      if (err) throw err;
+      return value;
+    });
+  };
+
+  const localCounters = new Map<string, LocalCounter>();
+  const getLocal = (key: string): LocalCounter | undefined => {
+    const counter = localCounters.get(key);
+    if (counter && counter.resetTime.getTime() > Date.now()) return counter;
+    localCounters.delete(key);
+    return undefined;
+  };
+
+  let degraded = false;
+  // Run `command` on Redis, or `fallback` on the local counters when Redis
+  // cannot answer. Only the switch either way is logged.
+  const withFallback = async <T>(
+    command: () => Promise<T>,
+    fallback: () => T,
+  ): Promise<T> => {
+    // ioredis queues commands while disconnected, so check the state first
+    if (client.status === "ready") {
+      try {
+        const result = await command();
+        if (degraded) {
+          degraded = false;
+          console.log("[RateLimit] Redis store recovered; counters are shared");
+        }
+        return result;
+      } catch (err) {
+        if (!degraded) {
+          console.error(
+            "[RateLimit] Redis store failed; counting per replica until it recovers:",
+            err,
+          );
+        }
+      }
+    } else if (!degraded) {
+      console.error(
+        `[RateLimit] Redis is ${client.status}; counting per replica until it recovers`,
+      );
+    }
+    degraded = true;
+    return fallback();
+  };
+
+  return {
+    prefix: "ratelimit:",
+    init: (config) => {
+      windowMs = config.windowMs;
+    },
+    get: (key) =>
+      withFallback(
+        async () => {
+          const [hits, ttlMs] = await exec(
+            client.multi().get(redisKey(key)).pttl(redisKey(key)),
+          );
+          return hits === null || hits === undefined
+            ? undefined
+            : toInfo(hits, ttlMs);
+        },
+        () => {
+          const counter = getLocal(key);
+          return counter && { ...counter };
+        },
+      ),
+    increment: (key) =>
+      withFallback(
+        async () => {
+          // The window starts with the first hit and is never extended
+          const [, hits, ttlMs] = await exec(
+            client
+              .multi()
+              .set(redisKey(key), 0, "PX", windowMs, "NX")
+              .incr(redisKey(key))
+              .pttl(redisKey(key)),
+          );
+          return toInfo(hits, ttlMs);
+        },
+        () => {
+          if (localCounters.size >= LOCAL_COUNTERS_PRUNE_AT) {
+            for (const storedKey of localCounters.keys()) getLocal(storedKey);
+          }
+          const counter = getLocal(key) ?? {
+            totalHits: 0,
+            resetTime: new Date(Date.now() + windowMs),
+          };
+          counter.totalHits++;
+          localCounters.set(key, counter);
+          return { ...counter };
+        },
+      ),
+    decrement: (key) =>
+      withFallback(
+        async () => {
+          await client.decr(redisKey(key));
+        },
+        () => {
+          const counter = getLocal(key);
+          if (counter && counter.totalHits > 0) counter.totalHits--;
+        },
+      ),
+    resetKey: (key) =>
+      withFallback(
+        async () => {
+          await client.del(redisKey(key));
+        },
+        () => {
+          localCounters.delete(key);
+        },
+      ),
+  };
+};
@@ -0,0 +1,1064 @@
+import {
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3ServiceException,
+  UploadPartCommand,
+} from "@aws-sdk/client-s3";
+import type { S3Client } from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import {
+  createHash,
+  createHmac,
+  randomUUID,
+  timingSafeEqual,
+} from "node:crypto";
+import { createReadStream, createWriteStream, rmSync } from "node:fs";
+import {
+  link,
+  mkdir,
+  open,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+
+// Checksums stored with an object (base64, as S3 reports them); null for
+// algorithms it was not uploaded with
+export interface StorageChecksums {
+  crc32: string | null;
+  crc32c: string | null;
+  crc64nvme: string | null;
+  sha1: string | null;
+  sha256: string | null;
+}
+
+export interface StorageObjectInfo {
+  size: number | null;
+  contentType: string | null;
+  etag: string | null; // Quoted, as sent in an ETag header
+  lastModified: Date | null;
+  storageClass: string | null;
+  metadata: Record<string, string>; // User metadata (x-amz-meta-*)
+  checksums: StorageChecksums;
+}
+
+const NO_CHECKSUMS: StorageChecksums = {
+  crc32: null,
+  crc32c: null,
+  crc64nvme: null,
+  sha1: null,
+  sha256: null,
+};
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// One part of a multipart upload, as reported back by the client that sent it
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+}
+
+// Where downloadable objects live. Keys are relative paths such as
+// "downloads/70.zip"; callers build them, drivers never trust them blindly.
+export interface StorageBackend {
+  readonly name: string;
+  checkHealth(): Promise<boolean>;
+  // null when the object does not exist; throws on storage failures
+  headObject(key: string): Promise<StorageObjectInfo | null>;
+  // The whole object, or only `range` (which must lie within it)
+  getObject(key: string, options?: { range?: ByteRange }): Promise<Readable>;
+  // Aborting the signal discards the partial object
+  putObject(
+    key: string,
+    body: Readable,
+    options: { contentType: string; signal?: AbortSignal },
+  ): Promise<void>;
+  // URL a client can fetch without credentials until it expires
+  getDownloadUrl(key: string, expiresInSeconds: number): Promise<string>;
+  // URL a client can PUT the whole object to without credentials; the
+  // request must send `contentType` as its Content-Type and
+  // `If-None-Match: *`. Uploads never replace an existing object: they fail
+  // with isObjectExistsError.
+  getUploadUrl(
+    key: string,
+    expiresInSeconds: number,
+    contentType: string,
+  ): Promise<string>;
+  // Multipart uploads, for objects too large for a single PUT. Each part URL
+  // answers with the part's ETag, which completing the upload needs back.
+  createMultipartUpload(key: string, contentType: string): Promise<string>;
+  getUploadPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expiresInSeconds: number,
+  ): Promise<string>;
+  // Fails with isInvalidUploadError when the upload or a part does not match,
+  // and with isObjectExistsError when the key exists by then
+  completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: UploadedPart[],
+  ): Promise<void>;
+  close(): void;
+}
+
+export const isS3NotFoundError = (err: unknown): boolean =>
+  err instanceof S3ServiceException &&
+  (err.name === "NotFound" ||
+    err.name === "NoSuchKey" ||
+    err.$metadata.httpStatusCode === 404);
+
+// Errors S3 answers a completion with when the client got the upload wrong
+const INVALID_UPLOAD_ERRORS = new Set([
+  "NoSuchUpload",
+  "InvalidPart",
+  "InvalidPartOrder",
+  "EntityTooSmall",
+]);
+
+export const isInvalidUploadError = (err: unknown): boolean =>
+  err instanceof S3ServiceException && INVALID_UPLOAD_ERRORS.has(err.name);
+
+// S3's answer to an If-None-Match: * write whose key exists (or is being
+// written by a concurrent conditional request)
+export const isObjectExistsError = (err: unknown): boolean =>
+  err instanceof S3ServiceException &&
+  (err.name === "PreconditionFailed" ||
+    err.name === "ConditionalRequestConflict");
+
+// S3's error for the drivers that imitate it
+const s3ClientError = (name: string, httpStatusCode: number, message: string) =>
+  new S3ServiceException({
+    name,
+    $fault: "client",
+    $metadata: { httpStatusCode },
+    message,
+  });
+
+export type S3Operation =
+  | "head_object"
+  | "presign"
+  | "create_multipart_upload"
+  | "complete_multipart_upload";
+
+// S3 (or any S3-compatible store such as MinIO). `observe` wraps the calls
+// reported on /metrics. The client is closed with the backend.
+export const createS3Storage = ({
+  client,
+  bucket,
+  observe = (_operation, call) => call(),
+}: {
+  client: S3Client;
+  bucket: string;
+  observe?: <T>(operation: S3Operation, call: () => Promise<T>) => Promise<T>;
+}): StorageBackend => ({
+  name: "s3",
+  checkHealth: async () => {
+    try {
+      // Use a lightweight HEAD request on a known path
+      const command = new HeadObjectCommand({
+        Bucket: bucket,
+        Key: "__health_check_marker__",
+      });
+      await observe("head_object", () => client.send(command));
+      return true;
+    } catch (err) {
+      // NotFound is fine - bucket is accessible
+      if (err instanceof Error && err.name === "NotFound") return true;
+      // AccessDenied or other errors indicate connection issues
+      return false;
+    }
+  },
+  headObject: async (key) => {
+    try {
+      const command = new HeadObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        ChecksumMode: "ENABLED",
+      });
+      const response = await observe("head_object", () => client.send(command));
+      return {
+        size: response.ContentLength ?? null,
+        contentType: response.ContentType ?? null,
+        etag: response.ETag ?? null,
+        lastModified: response.LastModified ?? null,
+        // S3 leaves the header out for STANDARD
+        storageClass: response.StorageClass ?? "STANDARD",
+        metadata: response.Metadata ?? {},
+        checksums: {
+          crc32: response.ChecksumCRC32 ?? null,
+          crc32c: response.ChecksumCRC32C ?? null,
+          crc64nvme: response.ChecksumCRC64NVME ?? null,
+          sha1: response.ChecksumSHA1 ?? null,
+          sha256: response.ChecksumSHA256 ?? null,
+        },
+      };
+    } catch (err) {
+      if (isS3NotFoundError(err)) return null;
+      throw err;
+    }
+  },
+  getObject: async (key, { range } = {}) => {
+    const response = await client.send(
+      new GetObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Range: range && `bytes=${String(range.start)}-${String(range.end)}`,
+      }),
+    );
+    if (!(response.Body instanceof Readable)) {
+      throw new Error(`Unexpected body for key=${key}`);
+    }
+    return response.Body;
+  },
+  putObject: async (key, body, { contentType, signal }) => {
+    // Multipart, so the body can be streamed without knowing its length
+    const upload = new Upload({
+      client,
+      params: {
+        Bucket: bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      },
+      queueSize: 2,
+      partSize: 8 * 1024 * 1024,
+    });
+    const abort = () => {
+      upload.abort().catch(() => undefined);
+    };
+    signal?.addEventListener("abort", abort, { once: true });
+    try {
+      await upload.done();
+    } finally {
+      signal?.removeEventListener("abort", abort);
+    }
+  },
+  getDownloadUrl: (key, expiresInSeconds) =>
+    observe("presign", () =>
+      getSignedUrl(client, new GetObjectCommand({ Bucket: bucket, Key: key }), {
+        expiresIn: expiresInSeconds,
+      }),
+    ),
+  getUploadUrl: (key, expiresInSeconds, contentType) =>
+    observe("presign", () =>
+      getSignedUrl(
+        client,
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          ContentType: contentType,
+          IfNoneMatch: "*",
+        }),
+        // So the upload has to be sent with the content type it was issued
+        // for, and cannot replace an object
+        {
+          expiresIn: expiresInSeconds,
+          signableHeaders: new Set(["content-type", "if-none-match"]),
+        },
+      ),
+    ),
+  createMultipartUpload: async (key, contentType) => {
+    const command = new CreateMultipartUploadCommand({
+      Bucket: bucket,
+      Key: key,
+      ContentType: contentType,
+    });
+    const { UploadId } = await observe("create_multipart_upload", () =>
+      client.send(command),
+    );
+    if (!UploadId) throw new Error(`No UploadId returned for key=${key}`);
+    return UploadId;
+  },
+  getUploadPartUrl: (key, uploadId, partNumber, expiresInSeconds) =>
+    observe("presign", () =>
+      getSignedUrl(
+        client,
+        new UploadPartCommand({
+          Bucket: bucket,
+          Key: key,
+          UploadId: uploadId,
+          PartNumber: partNumber,
+        }),
+        { expiresIn: expiresInSeconds },
+      ),
+    ),
+  completeMultipartUpload: async (key, uploadId, parts) => {
+    const command = new CompleteMultipartUploadCommand({
+      Bucket: bucket,
+      Key: key,
+      UploadId: uploadId,
+      IfNoneMatch: "*",
+      MultipartUpload: {
+        Parts: parts.map(({ partNumber, etag }) => ({
+          PartNumber: partNumber,
+          ETag: etag,
+        })),
+      },
+    });
+    await observe("complete_multipart_upload", () => client.send(command));
+  },
+  close: () => {
+    client.destroy();
+  },
+});
+
+// Which multipart upload part an upload URL is for
+export interface UploadPartTarget {
+  uploadId: string;
+  partNumber: number;
+}
+
+// Backends whose download and upload URLs this service serves itself from
+// /storage/*
+export interface SignedStorageBackend extends StorageBackend {
+  // Whether a download URL's signature matches its key and has not expired
+  verifyDownload(
+    key: string,
+    expires: string | undefined,
+    signature: string | undefined,
+  ): boolean;
+  // The same for upload URLs; `part` is null for whole-object uploads
+  verifyUpload(
+    key: string,
+    expires: string | undefined,
+    signature: string | undefined,
+    part: UploadPartTarget | null,
+  ): boolean;
+  // Store a whole-object upload; like S3 with If-None-Match: *, it fails
+  // with isObjectExistsError when the key exists
+  putUpload(
+    key: string,
+    body: Readable,
+    options: { contentType: string; signal?: AbortSignal },
+  ): Promise<void>;
+  // Store one part of a multipart upload and return its ETag
+  putUploadPart(
+    key: string,
+    part: UploadPartTarget,
+    body: Readable,
+    signal?: AbortSignal,
+  ): Promise<string>;
+}
+
+// URLs of the form `${publicUrl}/storage/<key>?expires&signature`, signed
+// with HMAC-SHA256 over the key and expiry so they work without credentials,
+// like S3 presigned URLs. Upload URLs also sign the method and part, so a
+// download URL cannot be turned into one.
+const createUrlSigner = (publicUrl: string, secret: string) => {
+  const sign = (key: string, expires: number, scope: string): string =>
+    createHmac("sha256", secret)
+      .update(`${key}\n${String(expires)}${scope}`)
+      .digest("base64url");
+
+  const uploadScope = (part: UploadPartTarget | null): string =>
+    part ? `\nPUT\n${part.uploadId}\n${String(part.partNumber)}` : "\nPUT";
+
+  const buildUrl = (
+    key: string,
+    expiresInSeconds: number,
+    scope: string,
+    params: Record<string, string> = {},
+  ): string => {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const url = new URL(
+      `storage/${key.split("/").map(encodeURIComponent).join("/")}`,
+      publicUrl.endsWith("/") ? publicUrl : `${publicUrl}/`,
+    );
+    for (const [name, value] of Object.entries(params)) {
+      url.searchParams.set(name, value);
+    }
+    url.searchParams.set("expires", String(expires));
+    url.searchParams.set("signature", sign(key, expires, scope));
+    return url.toString();
+  };
+
+  const verify = (
+    key: string,
+    expires: string | undefined,
+    signature: string | undefined,
+    scope: string,
+  ): boolean => {
+    const expiresAt = Number(expires);
+    if (
+      !signature ||
+      !Number.isInteger(expiresAt) ||
+      expiresAt < Date.now() / 1000
+    ) {
+      return false;
+    }
+    const expected = Buffer.from(sign(key, expiresAt, scope));
+    const given = Buffer.from(signature);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  };
+
+  return {
+    getDownloadUrl: (key: string, expiresInSeconds: number): string =>
+      buildUrl(key, expiresInSeconds, ""),
+    verifyDownload: (
+      key: string,
+      expires: string | undefined,
+      signature: string | undefined,
+    ): boolean => verify(key, expires, signature, ""),
+    getUploadUrl: (
+      key: string,
+      expiresInSeconds: number,
+      part: UploadPartTarget | null,
+    ): string =>
+      buildUrl(
+        key,
+        expiresInSeconds,
+        uploadScope(part),
+        part
+          ? { uploadId: part.uploadId, partNumber: String(part.partNumber) }
+          : {},
+      ),
+    verifyUpload: (
+      key: string,
+      expires: string | undefined,
+      signature: string | undefined,
+      part: UploadPartTarget | null,
+    ): boolean => verify(key, expires, signature, uploadScope(part)),
+  };
+};
+
+const objectExists = (key: string) =>
+  s3ClientError(
+    "PreconditionFailed",
+    412,
+    `key=${key} already exists and uploads never replace objects`,
+  );
+
+// Completing an upload takes its parts in ascending order, each with the
+// ETag its upload answered (S3 accepts them with or without quotes)
+const checkCompletedParts = (
+  uploadId: string,
+  parts: UploadedPart[],
+  etagOf: (partNumber: number) => string | undefined,
+): void => {
+  parts.forEach(({ partNumber, etag }, i) => {
+    if (i > 0 && partNumber <= parts[i - 1].partNumber) {
+      throw s3ClientError(
+        "InvalidPartOrder",
+        400,
+        `Parts of upload ${uploadId} are not in ascending order`,
+      );
+    }
+    if (etagOf(partNumber) !== `"${etag.replace(/^"|"$/g, "")}"`) {
+      throw s3ClientError(
+        "InvalidPart",
+        400,
+        `Part ${String(partNumber)} of upload ${uploadId} is missing or its ETag does not match`,
+      );
+    }
+  });
+};
+
+// Local filesystem: objects are files under `root`. Multipart uploads expire
+// `uploadTtlMs` after they start, when their part URLs have.
+export const createLocalStorage = async ({
+  root,
+  publicUrl,
+  secret,
+  uploadTtlMs,
+}: {
+  root: string;
+  publicUrl: string;
+  secret: string;
+  uploadTtlMs: number;
+}): Promise<SignedStorageBackend> => {
+  const rootDir = path.resolve(root);
+  await mkdir(rootDir, { recursive: true });
+  const signer = createUrlSigner(publicUrl, secret);
+
+  // Keys are sanitized by the caller; this only guards against a key that
+  // would still escape the root
+  const resolveKey = (key: string): string => {
+    const file = path.resolve(rootDir, key);
+    if (!file.startsWith(rootDir + path.sep)) {
+      throw new Error(`Invalid storage key=${key}`);
+    }
+    return file;
+  };
+
+  const isMissing = (err: unknown): boolean =>
+    (err as NodeJS.ErrnoException).code === "ENOENT";
+
+  // Multipart uploads in progress: parts are files under
+  // .multipart/<uploadId>/, next to the key they belong to. upload.json is
+  // written once, so its mtime is when the upload started.
+  const multipartRoot = path.join(rootDir, ".multipart");
+  const isExpired = (startedMs: number): boolean =>
+    startedMs + uploadTtlMs <= Date.now();
+  const openUpload = async (key: string, uploadId: string): Promise<string> => {
+    const noSuchUpload = s3ClientError(
+      "NoSuchUpload",
+      404,
+      `No such upload ${uploadId} for key=${key}`,
+    );
+    // Upload IDs are UUIDs we issued; anything else cannot name a directory
+    if (!/^[0-9a-f-]{36}$/.test(uploadId)) throw noSuchUpload;
+    const dir = path.join(multipartRoot, uploadId);
+    try {
+      const manifest = path.join(dir, "upload.json");
+      const upload = JSON.parse(await readFile(manifest, "utf8")) as {
+        key: string;
+      };
+      if (upload.key !== key) throw noSuchUpload;
+      if (isExpired((await stat(manifest)).mtimeMs)) throw noSuchUpload;
+    } catch (err) {
+      if (isMissing(err)) throw noSuchUpload;
+      throw err;
+    }
+    return dir;
+  };
+
+  // Abandoned uploads are removed whenever a new one starts
+  const sweepExpiredUploads = async (): Promise<void> => {
+    let uploadIds: string[];
+    try {
+      uploadIds = await readdir(multipartRoot);
+    } catch (err) {
+      if (isMissing(err)) return;
+      throw err;
+    }
+    for (const uploadId of uploadIds) {
+      const dir = path.join(multipartRoot, uploadId);
+      // A directory whose upload.json never got written dates from its own mtime
+      const started = await stat(path.join(dir, "upload.json"))
+        .catch(() => stat(dir))
+        .catch(() => null);
+      if (started && isExpired(started.mtimeMs)) {
+        await rm(dir, { recursive: true, force: true });
+      }
+    }
+  };
+
+  // Stream `body` to `file` through a file beside it, so readers never see
+  // a partial file. An `exclusive` write fails with isObjectExistsError
+  // instead of replacing the file.
+  const writeAtomically = async (
+    file: string,
+    body: Readable | (() => AsyncGenerator<Buffer>),
+    signal?: AbortSignal,
+    exclusive = false,
+  ): Promise<Buffer> => {
+    await mkdir(path.dirname(file), { recursive: true });
+    const partial = `${file}.${randomUUID()}.partial`;
+    const hash = createHash("md5");
+    try {
+      await pipeline(
+        body,
+        async function* (source: AsyncIterable<Buffer>) {
+          for await (const chunk of source) {
+            hash.update(chunk);
+            yield chunk;
+          }
+        },
+        createWriteStream(partial),
+        { signal },
+      );
+      if (exclusive) {
+        // link() never replaces its target, unlike rename()
+        await link(partial, file);
+        await rm(partial);
+      } else {
+        await rename(partial, file);
+      }
+    } catch (err) {
+      await rm(partial, { force: true });
+      if ((err as NodeJS.ErrnoException).code === "EEXIST") {
+        throw objectExists(path.relative(rootDir, file));
+      }
+      throw err;
+    }
+    return hash.digest();
+  };
+
+  return {
+    name: "local",
+    checkHealth: async () => {
+      try {
+        return (await stat(rootDir)).isDirectory();
+      } catch {
+        return false;
+      }
+    },
+    headObject: async (key) => {
+      try {
+        const stats = await stat(resolveKey(key));
+        if (!stats.isFile()) return null;
+        return {
+          size: stats.size,
+          contentType: null,
+          // Size and mtime, the way static file servers derive theirs
+          etag: `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`,
+          lastModified: stats.mtime,
+          storageClass: null,
+          metadata: {},
+          checksums: NO_CHECKSUMS,
+        };
+      } catch (err) {
+        if (isMissing(err)) return null;
+        throw err;
+      }
+    },
+    getObject: async (key, { range } = {}) => {
+      // Opened up front so a missing file fails here rather than mid-stream
+      const handle = await open(resolveKey(key));
+      return handle.createReadStream(range);
+    },
+    putObject: async (key, body, { signal }) => {
+      await writeAtomically(resolveKey(key), body, signal);
+    },
+    putUpload: async (key, body, { signal }) => {
+      await writeAtomically(resolveKey(key), body, signal, true);
+    },
+    getDownloadUrl: (key, expiresInSeconds) => {
+      resolveKey(key);
+      return Promise.resolve(signer.getDownloadUrl(key, expiresInSeconds));
+    },
+    verifyDownload: (key, expires, signature) => {
+      if (!signer.verifyDownload(key, expires, signature)) return false;
+      try {
+        resolveKey(key);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    getUploadUrl: (key, expiresInSeconds) => {
+      resolveKey(key);
+      return Promise.resolve(signer.getUploadUrl(key, expiresInSeconds, null));
+    },
+    verifyUpload: (key, expires, signature, part) => {
+      if (!signer.verifyUpload(key, expires, signature, part)) return false;
+      try {
+        resolveKey(key);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    createMultipartUpload: async (key) => {
+      resolveKey(key);
+      await sweepExpiredUploads();
+      const uploadId = randomUUID();
+      const dir = path.join(multipartRoot, uploadId);
+      await mkdir(dir, { recursive: true });
+      await writeFile(path.join(dir, "upload.json"), JSON.stringify({ key }));
+      return uploadId;
+    },
+    getUploadPartUrl: (key, uploadId, partNumber, expiresInSeconds) => {
+      resolveKey(key);
+      return Promise.resolve(
+        signer.getUploadUrl(key, expiresInSeconds, { uploadId, partNumber }),
+      );
+    },
+    putUploadPart: async (key, { uploadId, partNumber }, body, signal) => {
+      const dir = await openUpload(key, uploadId);
+      const part = path.join(dir, String(partNumber));
+      const etag = `"${(await writeAtomically(part, body, signal)).toString("hex")}"`;
+      await writeFile(`${part}.etag`, etag);
+      return etag;
+    },
+    completeMultipartUpload: async (key, uploadId, parts) => {
+      const file = resolveKey(key);
+      const dir = await openUpload(key, uploadId);
+      const etags = new Map(
+        await Promise.all(
+          parts.map(
+            async ({ partNumber }) =>
+              [
+                partNumber,
+                await readFile(
+                  path.join(dir, `${String(partNumber)}.etag`),
+                  "utf8",
+                ).catch(() => undefined),
+              ] as const,
+          ),
+        ),
+      );
+      checkCompletedParts(uploadId, parts, (partNumber) =>
+        etags.get(partNumber),
+      );
+      await writeAtomically(
+        file,
+        async function* () {
+          for (const { partNumber } of parts) {
+            yield* createReadStream(path.join(dir, String(partNumber)));
+          }
+        },
+        undefined,
+        true,
+      );
+      await rm(dir, { recursive: true, force: true });
+    },
+    close: () => undefined,
+  };
+};
+
+// S3 error codes a mock fixture can simulate, with the status S3 answers them with
+export const MOCK_STORAGE_ERRORS = {
+  SlowDown: 503,
+  ServiceUnavailable: 503,
+  InternalError: 500,
+  AccessDenied: 403,
+} as const;
+
+export interface MockStorageFixture {
+  fileId: number;
+  size: number;
+  contentType: string;
+  // Fail HeadObject and GetObject with this S3 error...
+  error?: keyof typeof MOCK_STORAGE_ERRORS;
+  // ...for this many calls, then succeed (every call when unset)
+  failTimes?: number;
+}
+
+// An uploaded body or part the mock wrote to disk
+interface SpooledBody {
+  file: string;
+  size: number;
+  etag: string;
+  sha256: string; // base64
+  lastModified: Date;
+}
+
+// Last-Modified of every mock file, so it stays the same across restarts
+const MOCK_LAST_MODIFIED = new Date("2025-01-01T00:00:00.000Z");
+
+const hashSeed = (value: string): number =>
+  createHash("sha256").update(value).digest().readUInt32BE(0);
+
+// Deterministic mock storage. Files come from `fixtures` when given;
+// otherwise every file ID divisible by 7 exists with a size derived from
+// `seed`. Contents are pseudo-random bytes derived from the seed and key, so
+// the same object always reads back identically. Multipart uploads expire
+// like the local driver's. Objects written with putObject (bundles) are
+// dropped `objectTtlMs` after they were written; published uploads are kept
+// until close().
+export const createMockStorage = ({
+  fixtures,
+  seed,
+  fileIdOf,
+  publicUrl,
+  secret,
+  uploadTtlMs,
+  objectTtlMs,
+}: {
+  fixtures: MockStorageFixture[] | null;
+  seed: string;
+  // File ID stored under a key; null for keys that are not files
+  fileIdOf: (key: string) => number | null;
+  publicUrl: string;
+  secret: string;
+  uploadTtlMs: number;
+  objectTtlMs: number;
+}): SignedStorageBackend => {
+  const signer = createUrlSigner(publicUrl, secret);
+  const fixturesById = new Map(
+    fixtures?.map((fixture) => [fixture.fileId, fixture]),
+  );
+  const failures = new Map<string, number>();
+  // Uploaded bodies and parts are spooled to files here, never held in memory
+  const uploadDir = path.join(tmpdir(), `mock-storage-${randomUUID()}`);
+  const uploads = new Map<
+    string,
+    SpooledBody & { contentType: string; expiresAt: number | null }
+  >();
+  const multipartUploads = new Map<
+    string,
+    {
+      key: string;
+      contentType: string;
+      parts: Map<number, SpooledBody>;
+      expiresAt: number;
+    }
+  >();
+
+  // Stream `body` to a new file, hashing it on the way
+  const spool = async (
+    body: Readable | (() => AsyncGenerator<Buffer>),
+    signal?: AbortSignal,
+  ): Promise<SpooledBody> => {
+    await mkdir(uploadDir, { recursive: true });
+    const file = path.join(uploadDir, randomUUID());
+    const md5 = createHash("md5");
+    const sha256 = createHash("sha256");
+    let size = 0;
+    try {
+      await pipeline(
+        body,
+        async function* (source: AsyncIterable<Buffer>) {
+          for await (const chunk of source) {
+            md5.update(chunk);
+            sha256.update(chunk);
+            size += chunk.length;
+            yield chunk;
+          }
+        },
+        createWriteStream(file),
+        { signal },
+      );
+    } catch (err) {
+      await rm(file, { force: true });
+      throw err;
+    }
+    return {
+      file,
+      size,
+      // The ETag S3 gives single-part uploads
+      etag: `"${md5.digest("hex")}"`,
+      sha256: sha256.digest("base64"),
+      lastModified: new Date(),
+    };
+  };
+
+  const discard = (spooled: SpooledBody): void => {
+    void rm(spooled.file, { force: true });
+  };
+
+  // An uploaded object, unless it has expired (which drops it)
+  const findStored = (key: string) => {
+    const upload = uploads.get(key);
+    if (upload && (upload.expiresAt ?? Infinity) <= Date.now()) {
+      uploads.delete(key);
+      discard(upload);
+      return undefined;
+    }
+    return upload;
+  };
+
+  // `expiresAt` null keeps the object until close()
+  const storeUpload = (
+    key: string,
+    spooled: SpooledBody,
+    contentType: string,
+    expiresAt: number | null,
+  ) => {
+    // Expired objects are removed whenever a new one is stored
+    for (const storedKey of uploads.keys()) findStored(storedKey);
+    const replaced = uploads.get(key);
+    if (replaced) discard(replaced);
+    uploads.set(key, { ...spooled, contentType, expiresAt });
+  };
+
+  const abortUpload = (uploadId: string): void => {
+    const upload = multipartUploads.get(uploadId);
+    if (!upload) return;
+    multipartUploads.delete(uploadId);
+    for (const part of upload.parts.values()) discard(part);
+  };
+
+  const findUpload = (key: string, uploadId: string) => {
+    const upload = multipartUploads.get(uploadId);
+    if (upload?.key !== key || upload.expiresAt <= Date.now()) {
+      throw s3ClientError(
+        "NoSuchUpload",
+        404,
+        `No such upload ${uploadId} for key=${key}`,
+      );
+    }
+    return upload;
+  };
+
+  const findFixture = (key: string): MockStorageFixture | null => {
+    const fileId = fileIdOf(key);
+    if (fileId === null) return null;
+    if (fixtures) return fixturesById.get(fileId) ?? null;
+    if (fileId % 7 !== 0) return null;
+    return {
+      fileId,
+      size: (hashSeed(`${seed}:${key}`) % 10000000) + 1000,
+      contentType: "application/zip",
+    };
+  };
+
+  // Throws the fixture's simulated error while it has failures left
+  const simulateError = (key: string, fixture: MockStorageFixture): void => {
+    if (!fixture.error) return;
+    const failed = failures.get(key) ?? 0;
+    if (fixture.failTimes !== undefined && failed >= fixture.failTimes) return;
+    failures.set(key, failed + 1);
+    throw new S3ServiceException({
+      name: fixture.error,
+      $fault: MOCK_STORAGE_ERRORS[fixture.error] >= 500 ? "server" : "client",
+      $metadata: { httpStatusCode: MOCK_STORAGE_ERRORS[fixture.error] },
+      message: `Simulated ${fixture.error} for key=${key}`,
+    });
+  };
+
+  // mulberry32: a small, fast PRNG, plenty for filler bytes. Its state only
+  // ever grows by a constant, so reads can start at any word of the object.
+  // Bytes [start, end) of the object under `key`.
+  const generateBytes = (key: string, start: number, end: number): Readable => {
+    const firstWord = Math.floor(start / 4);
+    let state =
+      (hashSeed(`${seed}:${key}:content`) + Math.imul(firstWord, 0x6d2b79f5)) |
+      0;
+    let position = firstWord * 4;
+    return new Readable({
+      read() {
+        const length = Math.min(end - position, 64 * 1024);
+        // Filled a whole word at a time, then trimmed
+        const chunk = Buffer.alloc(Math.ceil(length / 4) * 4);
+        for (let offset = 0; offset < chunk.length; offset += 4) {
+          state = (state + 0x6d2b79f5) | 0;
+          let t = Math.imul(state ^ (state >>> 15), 1 | state);
+          t ^= t + Math.imul(t ^ (t >>> 7), 61 | t);
+          chunk.writeUInt32BE((t ^ (t >>> 14)) >>> 0, offset);
+        }
+        this.push(chunk.subarray(Math.max(start - position, 0), length));
+        position += length;
+        if (position === end) this.push(null);
+      },
+    });
+  };
+
+  const missing = (key: string) =>
+    s3ClientError("NoSuchKey", 404, `No such key=${key}`);
+
+  const exists = (key: string): boolean =>
+    findStored(key) !== undefined || findFixture(key) !== null;
+
+  return {
+    name: "mock",
+    checkHealth: () => Promise.resolve(true),
+    headObject: (key) => {
+      const upload = findStored(key);
+      if (upload) {
+        return Promise.resolve({
+          size: upload.size,
+          contentType: upload.contentType,
+          etag: upload.etag,
+          lastModified: upload.lastModified,
+          storageClass: "STANDARD",
+          metadata: {},
+          // As if uploaded with a SHA-256 checksum
+          checksums: { ...NO_CHECKSUMS, sha256: upload.sha256 },
+        });
+      }
+      const fixture = findFixture(key);
+      if (!fixture) return Promise.resolve(null);
+      simulateError(key, fixture);
+      return Promise.resolve({
+        size: fixture.size,
+        contentType: fixture.contentType,
+        etag: `"${createHash("md5")
+          .update(`${seed}:${key}:${String(fixture.size)}`)
+          .digest("hex")}"`,
+        lastModified: MOCK_LAST_MODIFIED,
+        storageClass: "STANDARD",
+        metadata: {},
+        checksums: NO_CHECKSUMS,
+      });
+    },
+    getObject: async (key, { range } = {}) => {
+      const upload = findStored(key);
+      if (upload) {
+        // Opened up front, so expiry cannot pull the file away mid-read
+        const handle = await open(upload.file);
+        return handle.createReadStream(range);
+      }
+      const fixture = findFixture(key);
+      if (!fixture) throw missing(key);
+      simulateError(key, fixture);
+      const start = range?.start ?? 0;
+      const end = range ? range.end + 1 : fixture.size;
+      return start < end ? generateBytes(key, start, end) : Readable.from([]);
+    },
+    putObject: async (key, body, { contentType, signal }) => {
+      storeUpload(
+        key,
+        await spool(body, signal),
+        contentType,
+        Date.now() + objectTtlMs,
+      );
+    },
+    putUpload: async (key, body, { contentType, signal }) => {
+      const spooled = await spool(body, signal);
+      if (exists(key)) {
+        discard(spooled);
+        throw objectExists(key);
+      }
+      storeUpload(key, spooled, contentType, null);
+    },
+    getDownloadUrl: (key, expiresInSeconds) =>
+      Promise.resolve(signer.getDownloadUrl(key, expiresInSeconds)),
+    verifyDownload: signer.verifyDownload,
+    getUploadUrl: (key, expiresInSeconds) =>
+      Promise.resolve(signer.getUploadUrl(key, expiresInSeconds, null)),
+    verifyUpload: signer.verifyUpload,
+    createMultipartUpload: (key, contentType) => {
+      // Abandoned uploads are removed whenever a new one starts
+      const now = Date.now();
+      for (const [storedId, upload] of multipartUploads) {
+        if (upload.expiresAt <= now) abortUpload(storedId);
+      }
+      const uploadId = randomUUID();
+      multipartUploads.set(uploadId, {
+        key,
+        contentType,
+        parts: new Map(),
+        expiresAt: now + uploadTtlMs,
+      });
+      return Promise.resolve(uploadId);
+    },
+    getUploadPartUrl: (key, uploadId, partNumber, expiresInSeconds) =>
+      Promise.resolve(
+        signer.getUploadUrl(key, expiresInSeconds, { uploadId, partNumber }),
+      ),
+    putUploadPart: async (key, { uploadId, partNumber }, body, signal) => {
+      const upload = findUpload(key, uploadId);
+      const part = await spool(body, signal);
+      const replaced = upload.parts.get(partNumber);
+      if (replaced) discard(replaced);
+      upload.parts.set(partNumber, part);
+      return part.etag;
+    },
+    completeMultipartUpload: async (key, uploadId, parts) => {
+      const upload = findUpload(key, uploadId);
+      checkCompletedParts(
+        uploadId,
+        parts,
+        (partNumber) => upload.parts.get(partNumber)?.etag,
+      );
+      if (exists(key)) throw objectExists(key);
+      const spooled = await spool(async function* () {
+        for (const { partNumber } of parts) {
+          const part = upload.parts.get(partNumber);
+          if (part) yield* createReadStream(part.file);
+        }
+      });
+      // Another upload may have completed the key meanwhile
+      if (exists(key)) {
+        discard(spooled);
+        throw objectExists(key);
+      }
+      storeUpload(key, spooled, upload.contentType, null);
+      abortUpload(uploadId);
+    },
+    close: () => {
+      uploads.clear();
+      multipartUploads.clear();
+      rmSync(uploadDir, { recursive: true, force: true });
+    },
+  };
+};